@@ -2,7 +2,7 @@ import typescriptEslint from "typescript-eslint";
 
 export default [
 {
-    ignores: ["src/generated/**"],
+    ignores: ["src/generated/**", "src/test/fixtures/**"],
 },
 {
     files: ["**/*.ts"],
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { getCredentialProvider } from './credentialProvider';
+import { resolveApiBaseUrl } from './config/apiBaseUrl';
+import { decodeJwtExpiry } from './windsurfAuth';
+import { getLastRequestOutcome, onDidRecordRequestOutcome } from './connectionStatus';
+
+// 定时刷新，让“已过期”状态随时间更新
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 状态栏中显示当前工作区使用的 Windsurf 账号、JWT 有效期与最近一次请求结果，点击切换账号
+ */
+export class AccountStatusBar implements vscode.Disposable {
+	private readonly item: vscode.StatusBarItem;
+	private readonly subscriptions: vscode.Disposable[];
+	private readonly timer: NodeJS.Timeout;
+	private updateToken = 0;
+
+	constructor() {
+		this.item = vscode.window.createStatusBarItem('contextCodeText.account', vscode.StatusBarAlignment.Right, 100);
+		this.item.name = 'Windsurf Account';
+		this.subscriptions = [
+			getCredentialProvider().onDidChangeAccounts(() => void this.update()),
+			onDidRecordRequestOutcome(() => void this.update()),
+			vscode.workspace.onDidChangeConfiguration(e => {
+				if (e.affectsConfiguration('context-code-text.apiBaseUrl')) {
+					void this.update();
+				}
+			})
+		];
+		this.timer = setInterval(() => void this.update(), REFRESH_INTERVAL_MS);
+		void this.update();
+		this.item.show();
+	}
+
+	private async update(): Promise<void> {
+		const token = ++this.updateToken;
+		const provider = getCredentialProvider();
+		const account = provider.getActiveAccount();
+		if (!account) {
+			this.item.text = '$(account) Windsurf 未登录';
+			this.item.tooltip = '点击登录 Windsurf';
+			this.item.command = 'context-code-text.loginWindsurf';
+			this.item.backgroundColor = undefined;
+			return;
+		}
+
+		const { jwt } = await provider.getCredentials(account.id);
+		if (token !== this.updateToken) {
+			return;
+		}
+		const expiry = jwt ? decodeJwtExpiry(jwt) : undefined;
+		const expired = !jwt || (expiry !== undefined && expiry <= Date.now());
+		const outcome = getLastRequestOutcome();
+		const failed = outcome !== undefined && !outcome.ok;
+
+		this.item.text = `${failed ? '$(warning)' : '$(account)'} ${account.displayName}`;
+		this.item.backgroundColor = failed ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+		this.item.command = 'context-code-text.switchAccount';
+
+		const expiryText = !jwt
+			? '无（下次请求时获取）'
+			: expiry === undefined
+				? '未知'
+				: `${new Date(expiry).toLocaleString()}${expired ? '（已过期，下次请求时自动刷新）' : ''}`;
+		const outcomeText = !outcome
+			? '暂无'
+			: outcome.ok
+				? `$(check) 成功 · ${new Date(outcome.at).toLocaleTimeString()}`
+				: `$(error) 失败 · ${new Date(outcome.at).toLocaleTimeString()}：${escapeMarkdown(outcome.message)}`;
+		const tooltip = new vscode.MarkdownString(undefined, true);
+		tooltip.isTrusted = true;
+		tooltip.appendMarkdown(`**Windsurf 账号：** ${escapeMarkdown(account.displayName)}\n\n`);
+		tooltip.appendMarkdown(`**服务地址：** ${escapeMarkdown(resolveApiBaseUrl(account.baseUrl))}\n\n`);
+		tooltip.appendMarkdown(`**JWT 有效期：** ${escapeMarkdown(expiryText)}\n\n`);
+		tooltip.appendMarkdown(`**最近一次请求：** ${outcomeText}\n\n`);
+		tooltip.appendMarkdown('[切换账号](command:context-code-text.switchAccount) · [检查连接](command:context-code-text.checkConnection)');
+		this.item.tooltip = tooltip;
+	}
+
+	dispose(): void {
+		clearInterval(this.timer);
+		this.subscriptions.forEach(d => d.dispose());
+		this.item.dispose();
+	}
+}
+
+function escapeMarkdown(text: string): string {
+	return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { DeepwikiToolCall } from './deepwikiClient';
+
+const CACHE_DIR = 'deepwiki-cache';
+const INDEX_FILE = 'index.json';
+
+/** 缓存键：同一符号、同一请求参数、同一份组装后的上下文才会命中 */
+export interface ArticleCacheKey {
+	symbolUri: string;
+	range: string;
+	symbolKind: number;
+	language: string;
+	modelType: number;
+	requestType: string;
+	// buildContextText 输出的哈希
+	contextHash: string;
+}
+
+export interface CachedArticlePayload {
+	markdown: string;
+	followups: string[];
+	servedModelType?: number;
+	toolCalls?: DeepwikiToolCall[];
+}
+
+export interface CachedArticle extends CachedArticlePayload {
+	createdAt: number;
+	// 生成之后符号所在文件又被修改过
+	stale: boolean;
+}
+
+interface CacheIndexEntry {
+	symbolUri: string;
+	size: number;
+	createdAt: number;
+	lastAccess: number;
+	// 生成时符号所在文件的修改时间，用于判断是否过期
+	fileMtime?: number;
+}
+
+/**
+ * DeepWiki 文章的磁盘缓存，存放在扩展的 globalStorage 下
+ * 每篇文章一个文件，index.json 记录大小与访问时间，超出限制时按 LRU 淘汰
+ */
+export class ArticleCache {
+	private readonly dir: string;
+	private index: Record<string, CacheIndexEntry> | undefined;
+	// 文章文件、index.json 的写入与清空按顺序执行，互不交错
+	private writeChain: Promise<void> = Promise.resolve();
+
+	constructor(storageUri: vscode.Uri) {
+		this.dir = path.join(storageUri.fsPath, CACHE_DIR);
+	}
+
+	async get(key: ArticleCacheKey): Promise<CachedArticle | undefined> {
+		if (!this.isEnabled()) {
+			return undefined;
+		}
+		const id = hashKey(key);
+		const index = await this.loadIndex();
+		const meta = index[id];
+		if (!meta) {
+			return undefined;
+		}
+		let payload: CachedArticlePayload;
+		try {
+			payload = JSON.parse(await fs.promises.readFile(this.articlePath(id), 'utf8')) as CachedArticlePayload;
+		} catch {
+			// 文章文件丢失或损坏，移除索引项
+			delete index[id];
+			this.scheduleIndexWrite();
+			return undefined;
+		}
+		meta.lastAccess = Date.now();
+		this.scheduleIndexWrite();
+		const mtime = await getFileMtime(meta.symbolUri);
+		return {
+			markdown: payload.markdown,
+			followups: payload.followups ?? [],
+			servedModelType: payload.servedModelType,
+			toolCalls: payload.toolCalls,
+			createdAt: meta.createdAt,
+			stale: meta.fileMtime !== undefined && mtime !== undefined && mtime > meta.fileMtime
+		};
+	}
+
+	async put(key: ArticleCacheKey, payload: CachedArticlePayload): Promise<void> {
+		if (!this.isEnabled()) {
+			return;
+		}
+		const id = hashKey(key);
+		const body = JSON.stringify(payload);
+		// 与 clear 串行：清空不会删掉写到一半的文章，也不会留下指向已删除文件的索引项
+		await this.enqueue(async () => {
+			try {
+				await fs.promises.mkdir(this.dir, { recursive: true });
+				await fs.promises.writeFile(this.articlePath(id), body, 'utf8');
+			} catch (err) {
+				console.warn('[context-code-text] ArticleCache: failed to write article', err);
+				return;
+			}
+			const index = await this.loadIndex();
+			const now = Date.now();
+			index[id] = {
+				symbolUri: key.symbolUri,
+				size: Buffer.byteLength(body, 'utf8'),
+				createdAt: now,
+				lastAccess: now,
+				fileMtime: await getFileMtime(key.symbolUri)
+			};
+			await this.evict(index);
+			this.scheduleIndexWrite();
+		});
+	}
+
+	/** 清空缓存，返回被删除的文章数；等之前排队的写入完成后执行 */
+	clear(): Promise<number> {
+		return this.enqueue(async () => {
+			const index = await this.loadIndex();
+			const count = Object.keys(index).length;
+			this.index = {};
+			await fs.promises.rm(this.dir, { recursive: true, force: true });
+			return count;
+		});
+	}
+
+	private isEnabled(): boolean {
+		return vscode.workspace.getConfiguration('context-code-text').get<boolean>('cache.enabled', true);
+	}
+
+	private getLimits(): { maxEntries: number; maxBytes: number } {
+		const config = vscode.workspace.getConfiguration('context-code-text');
+		const maxEntries = Math.max(1, config.get<number>('cache.maxEntries', 200));
+		const maxBytes = Math.max(1, config.get<number>('cache.maxSizeMB', 50)) * 1024 * 1024;
+		return { maxEntries, maxBytes };
+	}
+
+	/** 超出条目数或总大小限制时，按最近访问时间淘汰最旧的文章 */
+	private async evict(index: Record<string, CacheIndexEntry>): Promise<void> {
+		const { maxEntries, maxBytes } = this.getLimits();
+		const ids = Object.keys(index).sort((a, b) => index[a].lastAccess - index[b].lastAccess);
+		let totalBytes = ids.reduce((sum, id) => sum + index[id].size, 0);
+		let count = ids.length;
+		for (const id of ids) {
+			if (count <= maxEntries && totalBytes <= maxBytes) {
+				break;
+			}
+			totalBytes -= index[id].size;
+			count -= 1;
+			delete index[id];
+			await fs.promises.rm(this.articlePath(id), { force: true }).catch(() => undefined);
+		}
+	}
+
+	private async loadIndex(): Promise<Record<string, CacheIndexEntry>> {
+		if (this.index) {
+			return this.index;
+		}
+		try {
+			const raw = await fs.promises.readFile(path.join(this.dir, INDEX_FILE), 'utf8');
+			this.index = (JSON.parse(raw) as { entries?: Record<string, CacheIndexEntry> }).entries ?? {};
+		} catch {
+			this.index = {};
+		}
+		return this.index;
+	}
+
+	/** 把任务排到写入队列末尾；任务失败不影响后面的任务 */
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		const run = this.writeChain.then(task);
+		this.writeChain = run.then(() => undefined, () => undefined);
+		return run;
+	}
+
+	/** 串行写入 index.json，避免并发写入互相覆盖 */
+	private scheduleIndexWrite(): void {
+		this.enqueue(async () => {
+			if (!this.index) {
+				return;
+			}
+			await fs.promises.mkdir(this.dir, { recursive: true });
+			await fs.promises.writeFile(path.join(this.dir, INDEX_FILE), JSON.stringify({ version: 1, entries: this.index }), 'utf8');
+		}).catch(err => console.warn('[context-code-text] ArticleCache: failed to write index', err));
+	}
+
+	private articlePath(id: string): string {
+		return path.join(this.dir, `${id}.json`);
+	}
+}
+
+function hashKey(key: ArticleCacheKey): string {
+	const material = [
+		key.symbolUri,
+		key.range,
+		key.symbolKind,
+		key.language,
+		key.modelType,
+		key.requestType,
+		key.contextHash
+	].join('\n');
+	return crypto.createHash('sha256').update(material).digest('hex');
+}
+
+async function getFileMtime(uriString: string): Promise<number | undefined> {
+	try {
+		const uri = vscode.Uri.parse(uriString);
+		if (uri.scheme !== 'file') {
+			return undefined;
+		}
+		return (await fs.promises.stat(uri.fsPath)).mtimeMs;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,17 @@
+import * as vscode from 'vscode';
+
+/**
+ * Windsurf API 服务地址
+ * 默认使用登录时 RegisterUser 返回的地址，设置 apiBaseUrl 后所有 RPC 都改用该地址（企业/区域部署或本地 mock）
+ */
+
+export const DEFAULT_API_BASE_URL = 'https://server.self-serve.windsurf.com';
+
+/**
+ * 解析本次 RPC 使用的服务地址（不带结尾的 /）
+ * @param accountBaseUrl 当前账号登录时记录的服务地址
+ */
+export function resolveApiBaseUrl(accountBaseUrl?: string): string {
+	const override = vscode.workspace.getConfiguration('context-code-text').get<string>('apiBaseUrl', '').trim();
+	return (override || accountBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+}
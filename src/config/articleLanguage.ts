@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+
+/**
+ * DeepWiki 文章语言配置
+ * GetDeepWikiRequest.language 传的是语言的显示名称（HAR 中观察到的是 "中文（中国）"）
+ */
+
+export const AUTO_ARTICLE_LANGUAGE = 'auto';
+
+// 可选的文章语言（与 package.json 中 articleLanguage 的 enum 保持一致）
+export const ARTICLE_LANGUAGES: string[] = [
+	'English',
+	'中文（中国）',
+	'中文（台灣）',
+	'日本語',
+	'한국어',
+	'Français',
+	'Deutsch',
+	'Español',
+	'Português (Brasil)',
+	'Русский'
+];
+
+// VS Code 显示语言（vscode.env.language）前缀 -> 文章语言
+const LOCALE_LANGUAGE_MAP: [string, string][] = [
+	['zh-cn', '中文（中国）'],
+	['zh-hans', '中文（中国）'],
+	['zh-tw', '中文（台灣）'],
+	['zh-hant', '中文（台灣）'],
+	['zh', '中文（中国）'],
+	['ja', '日本語'],
+	['ko', '한국어'],
+	['fr', 'Français'],
+	['de', 'Deutsch'],
+	['es', 'Español'],
+	['pt', 'Português (Brasil)'],
+	['ru', 'Русский']
+];
+
+/** 根据 VS Code 显示语言推导文章语言，未知语言回退到 English */
+export function languageFromLocale(locale: string): string {
+	const normalized = locale.toLowerCase();
+	for (const [prefix, language] of LOCALE_LANGUAGE_MAP) {
+		if (normalized === prefix || normalized.startsWith(`${prefix}-`)) {
+			return language;
+		}
+	}
+	return 'English';
+}
+
+/**
+ * 解析本次请求使用的文章语言
+ * @param override 来自 webview 标题栏的单次覆盖，优先于设置
+ */
+export function resolveArticleLanguage(override?: string): string {
+	const configured = override || vscode.workspace.getConfiguration('context-code-text').get<string>('articleLanguage', AUTO_ARTICLE_LANGUAGE);
+	if (!configured || configured === AUTO_ARTICLE_LANGUAGE) {
+		return languageFromLocale(vscode.env.language || 'en');
+	}
+	return configured;
+}
@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { CHARS_PER_TOKEN, ContextBudget, ContextSectionBudget, ContextSectionKey } from '../context/contextBudget';
+
+/**
+ * 发送给 DeepWiki 的上下文长度预算
+ * 上限可以按字符数或近似 token 数设置；各部分的优先级与最小份额可在 contextBudget.sections 中覆盖
+ */
+
+// 文件上下文最优先，其次是调用者/引用和追踪路径，grep 结果最先被裁剪
+export const DEFAULT_SECTION_BUDGETS: Record<ContextSectionKey, ContextSectionBudget> = {
+	file: { priority: 0, minChars: 8000 },
+	usage: { priority: 1, minChars: 4000 },
+	trace: { priority: 2, minChars: 2000 },
+	quickGrep: { priority: 3, minChars: 1000 },
+	fullGrep: { priority: 4, minChars: 0 }
+};
+
+export function resolveContextBudget(): ContextBudget {
+	const config = vscode.workspace.getConfiguration('context-code-text');
+	const limit = Math.max(0, Math.floor(config.get<number>('contextBudget.limit', 20000)));
+	const unit = config.get<'tokens' | 'characters'>('contextBudget.unit', 'tokens');
+	const overrides = config.get<Partial<Record<ContextSectionKey, Partial<ContextSectionBudget>>>>('contextBudget.sections', {});
+
+	const sections = { ...DEFAULT_SECTION_BUDGETS };
+	for (const key of Object.keys(sections) as ContextSectionKey[]) {
+		const override = overrides[key];
+		sections[key] = {
+			priority: typeof override?.priority === 'number' ? override.priority : sections[key].priority,
+			minChars: typeof override?.minChars === 'number' ? Math.max(0, override.minChars) : sections[key].minChars
+		};
+	}
+	return {
+		limitChars: unit === 'characters' ? limit : limit * CHARS_PER_TOKEN,
+		sections
+	};
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+
+/**
+ * DeepWiki 模型档位配置（对应 proto 中的 DeepWikiModelType）
+ */
+
+export type DeepwikiModelType = 0 | 1 | 2 | 3 | 4;
+
+export const MODEL_TYPE_CAPACITY_FALLBACK: DeepwikiModelType = 1;
+export const MODEL_TYPE_PREMIUM: DeepwikiModelType = 4;
+
+// 设置值 -> 档位（与 package.json 中 modelTier 的 enum 保持一致）
+const SETTING_MODEL_TYPE_MAP: Record<string, DeepwikiModelType> = {
+	auto: 1,
+	liteFree: 2,
+	litePaid: 3,
+	premium: 4
+};
+
+// 供 webview 选择器使用的档位列表
+export const MODEL_TIER_OPTIONS: { value: DeepwikiModelType; label: string }[] = [
+	{ value: 1, label: 'Auto' },
+	{ value: 2, label: 'Lite (Free)' },
+	{ value: 3, label: 'Lite (Paid)' },
+	{ value: 4, label: 'Premium' }
+];
+
+export function modelTypeLabel(value: number | undefined): string {
+	return MODEL_TIER_OPTIONS.find(o => o.value === value)?.label ?? '';
+}
+
+export function isDeepwikiModelType(value: unknown): value is DeepwikiModelType {
+	return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 4;
+}
+
+/**
+ * 解析本次请求使用的模型档位
+ * @param override 来自 webview 标题栏的单次覆盖，优先于设置
+ */
+export function resolveModelType(override?: DeepwikiModelType): DeepwikiModelType {
+	if (override) {
+		return override;
+	}
+	const configured = vscode.workspace.getConfiguration('context-code-text').get<string>('modelTier', 'auto');
+	return SETTING_MODEL_TYPE_MAP[configured] ?? MODEL_TYPE_CAPACITY_FALLBACK;
+}
@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+import { RedactionOptions } from '../context/redaction';
+
+/**
+ * 上下文脱敏设置：自定义正则与禁止发送内容的路径
+ */
+
+export function resolveRedactionOptions(): RedactionOptions {
+	const config = vscode.workspace.getConfiguration('context-code-text');
+	const patterns: RegExp[] = [];
+	for (const source of config.get<string[]>('redaction.patterns', [])) {
+		try {
+			patterns.push(new RegExp(source, 'g'));
+		} catch (err) {
+			console.warn(`[context-code-text] Ignoring invalid redaction pattern: ${source}`, err);
+		}
+	}
+	return {
+		enabled: config.get<boolean>('redaction.enabled', true),
+		patterns,
+		denylist: config.get<string[]>('redaction.denylist', [])
+	};
+}
@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+
+/**
+ * GetDeepWiki 请求的重试与超时策略
+ */
+
+export interface RetryPolicy {
+	// 总尝试次数（首次请求 + 重试次数）
+	maxAttempts: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	// 发出请求到收到响应头的最长等待时间，0 表示不限制
+	connectTimeoutMs: number;
+	// 流式响应中两次收到数据之间的最长间隔，0 表示不限制
+	idleTimeoutMs: number;
+}
+
+const MAX_BACKOFF_DELAY_MS = 30_000;
+
+export function resolveRetryPolicy(): RetryPolicy {
+	const config = vscode.workspace.getConfiguration('context-code-text');
+	const maxRetries = Math.max(0, Math.floor(config.get<number>('network.maxRetries', 3)));
+	const baseDelayMs = Math.max(0, config.get<number>('network.retryBaseDelayMs', 500));
+	const connectTimeoutSeconds = Math.max(0, config.get<number>('network.connectTimeoutSeconds', 15));
+	const idleTimeoutSeconds = Math.max(0, config.get<number>('network.idleTimeoutSeconds', 60));
+	return {
+		maxAttempts: maxRetries + 1,
+		baseDelayMs,
+		maxDelayMs: MAX_BACKOFF_DELAY_MS,
+		connectTimeoutMs: connectTimeoutSeconds * 1000,
+		idleTimeoutMs: idleTimeoutSeconds * 1000
+	};
+}
+
+/**
+ * 第 attempt 次失败后的等待时间：指数退避 + full jitter
+ * @param attempt 已经失败的尝试序号，从 1 开始
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+	const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+	return Math.round(Math.random() * ceiling);
+}
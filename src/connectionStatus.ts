@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+
+/**
+ * 最近一次 DeepWiki 请求的结果，供状态栏展示
+ */
+
+export interface RequestOutcome {
+	ok: boolean;
+	// 成功时为空，失败时为错误信息
+	message: string;
+	at: number;
+}
+
+const outcomeEmitter = new vscode.EventEmitter<RequestOutcome>();
+export const onDidRecordRequestOutcome = outcomeEmitter.event;
+
+let lastOutcome: RequestOutcome | undefined;
+
+export function recordRequestOutcome(ok: boolean, message = ''): void {
+	lastOutcome = { ok, message, at: Date.now() };
+	outcomeEmitter.fire(lastOutcome);
+}
+
+export function getLastRequestOutcome(): RequestOutcome | undefined {
+	return lastOutcome;
+}
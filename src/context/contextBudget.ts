@@ -0,0 +1,220 @@
+/**
+ * 组装 DeepWiki 上下文时的长度预算
+ * 各部分先保证最小份额，剩余预算按优先级分配；超出份额的部分按“离符号远近”裁剪，
+ * 被删去的连续行替换为 [truncated N lines]
+ */
+
+export type ContextSectionKey = 'file' | 'usage' | 'trace' | 'quickGrep' | 'fullGrep';
+
+export interface ContextSectionBudget {
+	// 数值越小越优先获得剩余预算
+	priority: number;
+	// 超出预算时仍保证的最小字符数
+	minChars: number;
+}
+
+export interface ContextBudget {
+	// 上下文总字符数上限，0 表示不限制
+	limitChars: number;
+	sections: Record<ContextSectionKey, ContextSectionBudget>;
+}
+
+export interface ContextSectionReport {
+	key: ContextSectionKey;
+	title: string;
+	originalChars: number;
+	finalChars: number;
+	// 被裁剪掉的行数
+	truncatedLines: number;
+	// 实际发送的内容
+	text: string;
+}
+
+export interface BudgetedContext {
+	text: string;
+	limitChars: number;
+	sections: ContextSectionReport[];
+}
+
+// 按组装顺序排列
+export const CONTEXT_SECTION_TITLES: Record<ContextSectionKey, string> = {
+	file: 'File Context',
+	usage: 'Usage Context',
+	trace: 'Trace Context',
+	quickGrep: 'Quick Grep Context',
+	fullGrep: 'Full Grep Context'
+};
+
+// 粗略换算：平均每个 token 约 4 个字符
+export const CHARS_PER_TOKEN = 4;
+
+const SECTION_SEPARATOR = '\n\n';
+// 为截断标记预留的长度估计
+const MARKER_RESERVE = 32;
+
+export function approximateTokens(chars: number): number {
+	return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+/**
+ * 按预算组装上下文
+ * @param sections 各部分原文，缺失的部分不参与组装
+ */
+export function applyContextBudget(sections: Partial<Record<ContextSectionKey, string>>, budget: ContextBudget): BudgetedContext {
+	const present = (Object.keys(CONTEXT_SECTION_TITLES) as ContextSectionKey[])
+		.filter(key => sections[key])
+		.map(key => ({ key, text: sections[key]! }));
+	const separators = Math.max(0, present.length - 1) * SECTION_SEPARATOR.length;
+	const total = present.reduce((sum, s) => sum + s.text.length, 0) + separators;
+	const allocation = budget.limitChars > 0 && total > budget.limitChars
+		? allocate(present, budget, budget.limitChars - separators)
+		: undefined;
+
+	const reports = present.map(({ key, text }): ContextSectionReport => {
+		const limit = allocation?.get(key);
+		const trimmed = limit !== undefined && limit < text.length ? trimSection(key, text, limit) : { text, truncatedLines: 0 };
+		return {
+			key,
+			title: CONTEXT_SECTION_TITLES[key],
+			originalChars: text.length,
+			finalChars: trimmed.text.length,
+			truncatedLines: trimmed.truncatedLines,
+			text: trimmed.text
+		};
+	});
+	return {
+		text: reports.filter(r => r.text).map(r => r.text).join(SECTION_SEPARATOR),
+		limitChars: budget.limitChars,
+		sections: reports
+	};
+}
+
+/** 先满足各部分的最小份额（不足时按比例缩减），剩余预算按优先级依次分配 */
+function allocate(present: { key: ContextSectionKey; text: string }[], budget: ContextBudget, available: number): Map<ContextSectionKey, number> {
+	const allocation = new Map<ContextSectionKey, number>();
+	const minimums = present.map(s => Math.min(s.text.length, budget.sections[s.key].minChars));
+	const minTotal = minimums.reduce((a, b) => a + b, 0);
+	const scale = minTotal > available ? Math.max(0, available) / minTotal : 1;
+	let remaining = Math.max(0, available);
+	present.forEach((s, i) => {
+		const share = Math.floor(minimums[i] * scale);
+		allocation.set(s.key, share);
+		remaining -= share;
+	});
+	const byPriority = [...present].sort((a, b) => budget.sections[a.key].priority - budget.sections[b.key].priority);
+	for (const s of byPriority) {
+		const current = allocation.get(s.key)!;
+		const extra = Math.min(s.text.length - current, Math.max(0, remaining));
+		allocation.set(s.key, current + extra);
+		remaining -= extra;
+	}
+	return allocation;
+}
+
+// 裁剪的最小单位：连续的若干行及其保留顺序（rank 越小越先保留）
+interface TrimUnit {
+	start: number;
+	end: number;
+	rank: number;
+}
+
+function trimSection(key: ContextSectionKey, text: string, maxChars: number): { text: string; truncatedLines: number } {
+	const lines = text.split('\n');
+	const units = key === 'file' ? fileUnits(lines) : sequentialUnits(lines);
+	let contentBudget = maxChars - MARKER_RESERVE;
+	// 截断标记本身也占长度，超出时收紧内容预算再选一次
+	for (let attempt = 0; attempt < 5; attempt++) {
+		const result = renderKept(lines, selectUnits(lines, units, contentBudget));
+		if (result.text.length <= maxChars) {
+			return result;
+		}
+		contentBudget -= result.text.length - maxChars + MARKER_RESERVE;
+	}
+	return { text: '', truncatedLines: lines.length };
+}
+
+function selectUnits(lines: string[], units: TrimUnit[], budget: number): boolean[] {
+	const kept = new Array<boolean>(lines.length).fill(false);
+	let size = 0;
+	for (const unit of [...units].sort((a, b) => a.rank - b.rank)) {
+		let cost = 0;
+		for (let i = unit.start; i < unit.end; i++) {
+			cost += lines[i].length + 1;
+		}
+		if (size + cost > budget) {
+			break;
+		}
+		for (let i = unit.start; i < unit.end; i++) {
+			kept[i] = true;
+		}
+		size += cost;
+	}
+	return kept;
+}
+
+function renderKept(lines: string[], kept: boolean[]): { text: string; truncatedLines: number } {
+	const out: string[] = [];
+	let dropped = 0;
+	let run = 0;
+	const flush = () => {
+		if (run > 0) {
+			out.push(`[truncated ${run} lines]`);
+			dropped += run;
+			run = 0;
+		}
+	};
+	lines.forEach((line, i) => {
+		if (kept[i]) {
+			flush();
+			out.push(line);
+		} else {
+			run++;
+		}
+	});
+	flush();
+	return { text: out.join('\n'), truncatedLines: dropped };
+}
+
+// renderFileSlice 的行格式：“行号\t|内容”
+const NUMBERED_LINE = /^(\d+)\t\|/;
+const SYMBOL_RANGE_HEADER = /^=== Symbol Range: /;
+
+/**
+ * 文件上下文：标题与符号范围最先保留，其余行按与符号范围的行号距离由近到远保留
+ */
+function fileUnits(lines: string[]): TrimUnit[] {
+	const rangeIndex = lines.findIndex(line => SYMBOL_RANGE_HEADER.test(line));
+	const symbolLines = (rangeIndex >= 0 ? lines.slice(rangeIndex) : [])
+		.map(line => NUMBERED_LINE.exec(line))
+		.filter((m): m is RegExpExecArray => !!m)
+		.map(m => Number(m[1]));
+	const symbolStart = symbolLines.length ? Math.min(...symbolLines) : 0;
+	const symbolEnd = symbolLines.length ? Math.max(...symbolLines) : 0;
+
+	const units: TrimUnit[] = [];
+	let lastDistance: number | undefined;
+	lines.forEach((line, i) => {
+		const numbered = NUMBERED_LINE.exec(line);
+		let rank: number;
+		if (rangeIndex >= 0 && i >= rangeIndex) {
+			// 符号范围按原顺序保留，过长时截去结尾
+			rank = -lines.length + (i - rangeIndex);
+		} else if (numbered) {
+			const lineNumber = Number(numbered[1]);
+			lastDistance = lineNumber < symbolStart ? symbolStart - lineNumber : lineNumber > symbolEnd ? lineNumber - symbolEnd : 0;
+			rank = lastDistance;
+		} else {
+			// 标题行最先保留；切片中的省略标记和空行跟随前一行
+			rank = lastDistance ?? -2 * lines.length;
+		}
+		units.push({ start: i, end: i + 1, rank });
+	});
+	return units;
+}
+
+/**
+ * 其他部分按出现顺序保留（调用者在引用之前、追踪路径从符号开始），从结尾开始裁剪
+ */
+function sequentialUnits(lines: string[]): TrimUnit[] {
+	return lines.map((_, i) => ({ start: i, end: i + 1, rank: i }));
+}
@@ -1,19 +1,36 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { spawn } from 'child_process';
 import { rgPath } from '@vscode/ripgrep';
 import { RichNode } from '../richNode';
 import { renderFileSlice } from '../render';
+import { isMultiRootWorkspace, toWorkspacePath } from '../utils/workspacePaths';
+import { GrepFilter, grepFileRank, resolveGrepFilter } from './grepFilters';
 
 const MAX_GREP_FILES = 12;
 const MAX_GREP_CHARS = 200;
 
+// 向上查找包根目录时识别的清单文件
+const PACKAGE_MANIFESTS = ['package.json', 'go.mod', 'Cargo.toml', 'pyproject.toml', 'setup.py', 'pom.xml', 'build.gradle', 'build.gradle.kts'];
+
 interface RgMatch {
 	file: string;
 	line: number;
 	column: number;
 }
 
-function runRipgrep(pattern: string, cwd: string): Promise<RgMatch[]> {
+interface RgOptions {
+	filter: GrepFilter;
+	// 只匹配完整单词
+	wordRegexp?: boolean;
+	// 相对 cwd 的搜索路径，默认整个 cwd
+	paths?: string[];
+	// 目录递归深度，默认不限制
+	maxDepth?: number;
+}
+
+function runRipgrep(pattern: string, cwd: string, options: RgOptions): Promise<RgMatch[]> {
 	return new Promise((resolve, reject) => {
 		const matches: RgMatch[] = [];
 		const args = [
@@ -21,14 +38,18 @@ function runRipgrep(pattern: string, cwd: string): Promise<RgMatch[]> {
 			'--fixed-strings',     // Treat pattern as literal string
 			'--line-number',
 			'--column',
-			'-g', '!node_modules',
-			'-g', '!dist',
-			'-g', '!out',
-			'-g', '!.git',
-			pattern
+			...(options.wordRegexp ? ['--word-regexp'] : []),
+			...(options.maxDepth !== undefined ? ['--max-depth', String(options.maxDepth)] : []),
+			// 不在 git 仓库中时也遵循 .gitignore
+			...(options.filter.useIgnoreFiles ? ['--no-require-git'] : ['--no-ignore']),
+			...options.filter.excludeGlobs.flatMap(glob => ['-g', `!${glob}`]),
+			'--',
+			pattern,
+			...(options.paths ?? [])
 		];
 
-		const rg = spawn(rgPath, args, { cwd });
+		// 没有给出搜索路径时 ripgrep 会读取可读的 stdin，必须关闭，否则一直等待输入
+		const rg = spawn(rgPath, args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
 		let stderr = '';
 
 		rg.stdout.on('data', (data: Buffer) => {
@@ -69,22 +90,157 @@ function runRipgrep(pattern: string, cwd: string): Promise<RgMatch[]> {
 	});
 }
 
+interface GrepScope {
+	dir: string;
+	// 只搜索目录下的文件，不进入子目录
+	shallow: boolean;
+	description: string;
+}
+
+/**
+ * 快速搜索的范围：先搜索符号所在目录及其兄弟目录（即上一级目录），结果不足时再搜索包根目录
+ * （含 package.json、go.mod 等；找不到时为工作区根目录）
+ * 上一级目录是包根目录时第一步只搜索符号所在目录，符号就在包根目录时只搜索该目录下的文件；
+ * 包根目录就是工作区根目录时没有第二步，整个工作区的搜索留给全量搜索
+ */
+function quickGrepScopes(symbolFile: string, root: string): GrepScope[] {
+	const symbolDir = path.dirname(symbolFile);
+	const relative = (dir: string) => path.relative(root, dir) || '.';
+	if (!isInside(symbolDir, root)) {
+		return [];
+	}
+	let bound = root;
+	for (let dir = symbolDir; isInside(dir, root); dir = path.dirname(dir)) {
+		if (PACKAGE_MANIFESTS.some(name => fs.existsSync(path.join(dir, name)))) {
+			bound = dir;
+			break;
+		}
+		if (dir === root) {
+			break;
+		}
+	}
+	const parent = path.dirname(symbolDir);
+	const scopes: GrepScope[] = [
+		symbolDir === bound
+			? { dir: symbolDir, shallow: true, description: `files in ${relative(symbolDir)}` }
+			: parent === bound
+				? { dir: symbolDir, shallow: false, description: relative(symbolDir) }
+				: { dir: parent, shallow: false, description: `${relative(symbolDir)} and sibling folders` }
+	];
+	if (bound !== root) {
+		scopes.push({ dir: bound, shallow: false, description: `package root ${relative(bound)}` });
+	}
+	return scopes;
+}
+
+function isInside(dir: string, root: string): boolean {
+	const relative = path.relative(root, dir);
+	return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/** 已由定义处和 LSP 引用覆盖的位置（文件:行），快速搜索不再重复 */
+async function coveredLines(node: RichNode): Promise<Set<string>> {
+	const covered = new Set<string>();
+	const uri = node.getUri();
+	const range = node.getRange();
+	for (let line = range.start.line; line <= range.end.line; line++) {
+		covered.add(`${uri.fsPath}:${line}`);
+	}
+	try {
+		for (const ref of await node.getReferences()) {
+			covered.add(`${ref.location.uri.fsPath}:${ref.location.range.start.line}`);
+		}
+	} catch {
+		// 没有引用信息时只排除定义处
+	}
+	return covered;
+}
+
+async function runQuickGrep(node: RichNode, root: string, maxFiles: number, filter: GrepFilter): Promise<{ matches: RgMatch[]; scopeDescription: string }> {
+	const covered = await coveredLines(node);
+	const matches: RgMatch[] = [];
+	const seen = new Set<string>();
+	const files = new Set<string>();
+	const searched: string[] = [];
+	for (const scope of quickGrepScopes(node.getUri().fsPath, root)) {
+		// 前面的范围已经凑够文件数时不再扩大
+		if (files.size >= maxFiles) {
+			break;
+		}
+		searched.push(scope.description);
+		const found = await runRipgrep(node.getName(), root, {
+			filter,
+			wordRegexp: true,
+			maxDepth: scope.shallow ? 1 : undefined,
+			paths: [path.relative(root, scope.dir) || '.']
+		});
+		// 包根目录的搜索包含前面的范围，已经找到的匹配不再重复
+		for (const m of found) {
+			const file = path.resolve(root, m.file);
+			const key = `${file}:${m.line}`;
+			if (covered.has(key) || seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+			files.add(file);
+			matches.push({ ...m, file });
+		}
+	}
+	return {
+		matches,
+		scopeDescription: `Quick search (${searched.join(', then ')}; whole word, excluding the definition and LSP references)`
+	};
+}
+
+/** 多根工作区中以文件夹名称标注匹配所在的文件夹 */
+function formatMatchPath(uri: vscode.Uri): string {
+	if (!isMultiRootWorkspace()) {
+		return uri.fsPath;
+	}
+	const location = toWorkspacePath(uri);
+	return location.workspaceFolder ? `[${location.workspaceFolder}] ${location.filePath}` : location.filePath;
+}
+
+/** 全量搜索：所属工作区文件夹，按设置附带其他工作区文件夹 */
+async function runFullGrep(symbol: string, owner: vscode.WorkspaceFolder): Promise<{ matches: RgMatch[]; scopeDescription: string }> {
+	const includeOthers = vscode.workspace.getConfiguration('context-code-text').get<boolean>('grep.includeOtherWorkspaceFolders', false);
+	const folders = includeOthers
+		? [owner, ...(vscode.workspace.workspaceFolders ?? []).filter(f => f.uri.toString() !== owner.uri.toString())]
+		: [owner];
+	const matches: RgMatch[] = [];
+	for (const folder of folders) {
+		const root = folder.uri.fsPath;
+		const found = await runRipgrep(symbol, root, { filter: resolveGrepFilter(folder) });
+		matches.push(...found.map(m => ({ ...m, file: path.resolve(root, m.file) })));
+	}
+	return {
+		matches,
+		scopeDescription: isMultiRootWorkspace()
+			? `Full workspace search (folders: ${folders.map(f => f.name).join(', ')})`
+			: 'Full workspace search'
+	};
+}
+
 export async function runGrep(node: RichNode, mode: 'quick' | 'full'): Promise<string> {
 	try {
 		const symbol = node.getName();
-		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+		// 多根工作区中使用符号所在的文件夹
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(node.getUri()) ?? vscode.workspace.workspaceFolders?.[0];
 		if (!workspaceFolder) {
 			return 'No workspace folder found.';
 		}
 
 		const title = mode === 'quick' ? `=== Quick Grep Results for '${symbol}' ===` : `=== Grep Results for '${symbol}' ===`;
-		const scopeDescription = mode === 'quick' ? 'Quick search (parent folder only)' : 'Full workspace search';
-		
-		const searchPath = workspaceFolder.uri.fsPath;
-		const rgMatches = await runRipgrep(symbol, searchPath);
+		const maxFiles = mode === 'quick'
+			? Math.max(1, vscode.workspace.getConfiguration('context-code-text').get<number>('quickGrep.maxFiles', 6))
+			: MAX_GREP_FILES;
+
+		const { matches: rgMatches, scopeDescription } = mode === 'quick'
+			? await runQuickGrep(node, workspaceFolder.uri.fsPath, maxFiles, resolveGrepFilter(workspaceFolder))
+			: await runFullGrep(symbol, workspaceFolder);
 
 		if (!rgMatches.length) {
-			return `No grep results found for '${symbol}'.`;
+			return `No ${mode === 'quick' ? 'quick ' : ''}grep results found for '${symbol}'.`;
 		}
 
 		const lines: string[] = [];
@@ -102,21 +258,21 @@ export async function runGrep(node: RichNode, mode: 'quick' | 'full'): Promise<s
 			byFile.get(m.file)!.push(m);
 		}
 
+		// 源文件优先，测试文件和生成代码排在后面；同一类保持 ripgrep 的顺序
+		const rank = (file: string) => grepFileRank(toWorkspacePath(vscode.Uri.file(file)).filePath);
+		const ranked = [...byFile].sort(([a], [b]) => rank(a) - rank(b));
+
 		let shownFiles = 0;
-		for (const [file, ms] of byFile) {
-			if (shownFiles >= MAX_GREP_FILES) {
+		for (const [file, ms] of ranked) {
+			if (shownFiles >= maxFiles) {
 				lines.push('... and more matches...');
 				break;
 			}
 			
 			try {
-				const fileUri = vscode.Uri.file(
-					file.startsWith('/') || file.includes(':') 
-						? file 
-						: `${searchPath}/${file}`
-				);
+				const fileUri = vscode.Uri.file(file);
 				const doc = await vscode.workspace.openTextDocument(fileUri);
-				lines.push(`${fileUri.fsPath} (${ms.length} matches, showing context around first match)`);
+				lines.push(`${formatMatchPath(fileUri)} (${ms.length} matches, showing context around first match)`);
 				const start = Math.max(0, ms[0].line - 10);
 				const end = Math.min(doc.lineCount - 1, ms[0].line + 10);
 				lines.push(renderFileSlice(doc, start, end, MAX_GREP_CHARS, 200));
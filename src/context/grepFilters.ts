@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * grep 上下文的过滤与排序：遵循工作区的排除设置和 ignore 文件，
+ * 测试文件与生成代码排在源文件之后
+ */
+
+export interface GrepFilter {
+	// 传给 ripgrep 的排除 glob（不带 !）
+	excludeGlobs: string[];
+	// 是否遵循 .gitignore / .ignore / .rgignore
+	useIgnoreFiles: boolean;
+}
+
+/** 读取 files.exclude、search.exclude 与 context-code-text.contextExclude */
+export function resolveGrepFilter(folder: vscode.WorkspaceFolder): GrepFilter {
+	const globs = new Set<string>();
+	for (const section of ['files', 'search']) {
+		const exclude = vscode.workspace.getConfiguration(section, folder.uri).get<Record<string, unknown>>('exclude', {});
+		for (const [glob, value] of Object.entries(exclude)) {
+			// { when: ... } 依赖同级文件的条件排除，ripgrep 无法表达，忽略
+			if (value === true) {
+				globs.add(glob);
+			}
+		}
+	}
+	const config = vscode.workspace.getConfiguration('context-code-text', folder.uri);
+	for (const glob of config.get<string[]>('contextExclude', [])) {
+		if (glob.trim()) {
+			globs.add(glob.trim());
+		}
+	}
+	return {
+		excludeGlobs: [...globs],
+		useIgnoreFiles: vscode.workspace.getConfiguration('search', folder.uri).get<boolean>('useIgnoreFiles', true)
+	};
+}
+
+const TEST_DIRS = new Set(['test', 'tests', '__tests__', 'spec', 'specs', '__mocks__', 'testdata', 'fixtures']);
+const TEST_FILE = /(\.|_|-)(test|spec)s?\.[^.]+$|^test_.*\.py$/i;
+const GENERATED_DIRS = new Set(['generated', '__generated__', 'gen', 'vendor', 'third_party']);
+const GENERATED_FILE = /\.(pb|pb\.gw|g|generated|gen|min)\.[^.]+$|_pb2(_grpc)?\.py$|\.d\.ts$/i;
+
+/**
+ * 选取展示文件时的排序：0 源文件，1 测试文件，2 生成代码或第三方代码
+ * @param file 相对或绝对路径
+ */
+export function grepFileRank(file: string): number {
+	const segments = file.split(/[\\/]/).map(s => s.toLowerCase());
+	const name = path.basename(file);
+	if (GENERATED_FILE.test(name) || segments.slice(0, -1).some(s => GENERATED_DIRS.has(s))) {
+		return 2;
+	}
+	if (TEST_FILE.test(name) || segments.slice(0, -1).some(s => TEST_DIRS.has(s))) {
+		return 1;
+	}
+	return 0;
+}
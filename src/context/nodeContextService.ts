@@ -5,6 +5,13 @@ import { getFileContext } from './fileContext';
 import { getUsageContext } from './usageContext';
 import { getTraceContext } from './traceContext';
 
+export type SummarySections = {
+	fileContext: string;
+	usageContext: string;
+	traceContext: string;
+	quickGrepContext: string;
+};
+
 export class NodeContextService {
 	async quickGrepContext(node: RichNode): Promise<string> {
 		return runGrep(node, 'quick');
@@ -37,13 +44,20 @@ export class NodeContextService {
 	}
 
 	async nodeSummaryContext(node: RichNode): Promise<string> {
-		const parts = await Promise.all([
+		const sections = await this.nodeSummarySections(node);
+		const parts = [sections.fileContext, sections.usageContext, sections.traceContext, sections.quickGrepContext];
+		return parts.filter(Boolean).join('\n' + '='.repeat(40) + '\n');
+	}
+
+	/** 摘要模式使用的较轻量上下文：不包含全量 grep */
+	async nodeSummarySections(node: RichNode): Promise<SummarySections> {
+		const [fileContext, usageContext, traceContext, quickGrepContext] = await Promise.all([
 			node.getFileContext(),
 			node.getUsageContext(),
 			node.getTraceContext(),
 			node.getQuickGrepContext()
 		]);
-		return parts.filter(Boolean).join('\n' + '='.repeat(40) + '\n');
+		return { fileContext, usageContext, traceContext, quickGrepContext };
 	}
 
 	async getSymbolKindText(node: RichNode): Promise<string> {
@@ -36,7 +36,7 @@ async function renderCallers(callers: Caller[]): Promise<string[]> {
 		const start = Math.max(0, range.start.line - 4);
 		const end = range.end.line + 4;
 		const doc = await vscode.workspace.openTextDocument(caller.source.uri);
-		parts.push(`Caller ${i + 1}: ${caller.source.symbol.name}`);
+		parts.push(`Caller ${i + 1}: ${caller.source.symbol.name} (${caller.source.uri.fsPath}:${range.start.line + 1})`);
 		parts.push(renderFileSlice(doc, start, end));
 		parts.push('');
 	}
@@ -2,7 +2,15 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { NodeCreatorService } from './nodeCreatorService';
-import { streamDeepwikiArticle, DeepwikiStreamMessage } from './deepwikiClient';
+import { streamDeepwikiArticle, DeepwikiStreamMessage, DeepwikiContextParams, DeepwikiRequestKind, DeepwikiRequestStats, DeepwikiToolCall, AssembledContext, applyReviewedContext, assembleContext, contextFingerprint, redactContextFields } from './deepwikiClient';
+import { ContextSectionKey, approximateTokens } from './context/contextBudget';
+import { formatWorkspacePath, resolveWorkspacePath, toWorkspacePath } from './utils/workspacePaths';
+import { DeepwikiError, ConnectErrorCode, errorRequestId, isAbortError } from './deepwiki/errors';
+import { ArticleCache, ArticleCacheKey } from './articleCache';
+import { WindsurfAuthError } from './windsurfAuth';
+import { makeIdFromRange } from './utils/rangeUtils';
+import { ARTICLE_LANGUAGES, resolveArticleLanguage } from './config/articleLanguage';
+import { DeepwikiModelType, MODEL_TIER_OPTIONS, isDeepwikiModelType, modelTypeLabel, resolveModelType } from './config/modelTier';
 
 // Webview 状态类型定义（与 webview/src/types.ts 保持一致）
 interface WebviewState {
@@ -18,6 +26,22 @@ interface WebviewState {
 	shikiThemeDark?: string;
 	shikiThemeLight?: string;
 	iconBaseUri?: string;
+	// 当前文章使用的语言及可选语言列表
+	language?: string;
+	languages?: string[];
+	// 请求的模型档位、服务端实际使用的档位及可选档位列表
+	modelType?: number;
+	servedModelType?: number;
+	modelTiers?: { value: number; label: string }[];
+	// summary 为快速预览卡片，article 为完整文章
+	requestType?: DeepwikiRequestKind;
+	// 文章来自磁盘缓存时的生成时间，以及源文件是否已在之后被修改
+	cachedAt?: number;
+	cacheStale?: boolean;
+	// 生成文章的请求统计（token 数、耗时、request id）
+	stats?: DeepwikiRequestStats;
+	// 生成文章时模型调用的工具
+	toolCalls?: DeepwikiToolCall[];
 }
 
 interface HistoryEntry {
@@ -26,15 +50,75 @@ interface HistoryEntry {
 	symbolKind: number;
 	markdown: string;
 	followups: string[];
-	// 符号位置信息
+	// 符号位置信息：相对所属工作区文件夹的路径（旧版本保存的是绝对路径）
 	filePath: string;
+	workspaceFolder?: string;
 	line: number;
-	// 上下文信息
+	character?: number;
+	// 上下文信息（已脱敏、未裁剪），刷新时重新组装
 	fileContext?: string;
 	usageContext?: string;
 	traceContext?: string;
 	quickGrepContext?: string;
 	fullGrepContext?: string;
+	// 发送前审阅时补充的说明，刷新时沿用
+	extraInstructions?: string;
+	// 生成该文章时实际发送的上下文，导出时使用
+	sentContext?: SentContext;
+	// 生成文章时使用的语言，刷新时沿用
+	language?: string;
+	// 请求的模型档位（刷新时沿用）与服务端实际使用的档位
+	modelType?: DeepwikiModelType;
+	servedModelType?: DeepwikiModelType;
+	// summary 条目只包含摘要上下文（没有全量 grep），可以展开为完整文章
+	requestType?: DeepwikiRequestKind;
+	// 解析出的符号（定义处）URI 与范围，用于生成缓存键
+	cacheSymbol?: { uri: string; range: string };
+	cachedAt?: number;
+	cacheStale?: boolean;
+	// 条目生成（或最近一次刷新）的时间
+	timestamp?: number;
+	// 生成该文章的请求统计，来自缓存的条目没有
+	stats?: DeepwikiRequestStats;
+	// 生成文章时模型调用的工具，按调用顺序
+	toolCalls?: DeepwikiToolCall[];
+}
+
+// 保存到历史记录的发送内容：各部分实际发送的文本与大小（不重复保存拼接后的全文）
+type SentContext = Omit<AssembledContext, 'text'> & { totalChars: number };
+
+// streamIntoView 的结果；stopped 表示用户主动停止了生成
+interface StreamResult {
+	articleText: string;
+	followups: string[];
+	stopped: boolean;
+	servedModelType?: DeepwikiModelType;
+	stats?: DeepwikiRequestStats;
+	toolCalls: DeepwikiToolCall[];
+	sentContext?: SentContext;
+}
+
+// 持久化到 workspaceState 的历史记录
+// 版本 1 保存的是脱敏前的上下文，恢复时补做脱敏
+interface PersistedHistory {
+	version: 1 | 2;
+	index: number;
+	entries: HistoryEntry[];
+}
+
+const HISTORY_STATE_KEY = 'contextCodeText.history';
+
+// 来自 webview 标题栏或命令的单次请求覆盖
+interface RequestOverrides {
+	language?: string;
+	modelType?: DeepwikiModelType;
+	requestType?: DeepwikiRequestKind;
+}
+
+// 用户在 webview 中确认发送的上下文：保留的部分与补充说明
+interface ContextReviewResult {
+	sections: ContextSectionKey[];
+	extraInstructions: string;
 }
 
 export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
@@ -45,10 +129,16 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 	private historyIndex: number = -1;
 	private currentArticle: string = '';
 	private updateGeneration: number = 0;
+	// 当前正在进行的 DeepWiki 流，新的请求、关闭视图或“停止生成”时中止
+	private activeRequest: AbortController | undefined;
+	// 等待用户确认发送的上下文审阅，id 为请求代次
+	private pendingReview: { id: number; resolve: (result: ContextReviewResult | undefined) => void } | undefined;
 
 	constructor(
 		private readonly nodeCreator: NodeCreatorService,
-		extensionUri: vscode.Uri
+		extensionUri: vscode.Uri,
+		private readonly articleCache: ArticleCache,
+		private readonly workspaceState: vscode.Memento
 	) {
 		this.extensionUri = extensionUri;
 	}
@@ -65,6 +155,12 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 		
 		// 处理来自 webview 的消息
 		webviewView.webview.onDidReceiveMessage(this.handleWebviewMessage.bind(this));
+
+		// 视图关闭时中止仍在进行的生成
+		webviewView.onDidDispose(() => {
+			this.cancelActiveRequest();
+			this.view = undefined;
+		});
 		
 		// 监听 VS Code 主题和配置变化，更新 Shiki 主题
 		vscode.window.onDidChangeActiveColorTheme(() => {
@@ -94,7 +190,15 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 			canGoNext: false
 		});
 		
-		void this.updateForEditor(vscode.window.activeTextEditor ?? undefined);
+		// 有上次会话留下的历史时恢复到当时停留的条目，否则为当前编辑器生成
+		if (this.history.length === 0) {
+			this.restoreHistory();
+		}
+		if (this.history.length > 0) {
+			this.showHistoryEntry();
+		} else {
+			void this.updateForEditor(vscode.window.activeTextEditor ?? undefined);
+		}
 	}
 
 	private handleWebviewMessage(message: { type: string; [key: string]: unknown }): void {
@@ -118,6 +222,29 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 			case 'copyFollowup':
 				this.copyFollowupWithContext(message.question as string);
 				break;
+			case 'stopGenerating':
+				this.stopGenerating();
+				break;
+			case 'changeLanguage':
+				void this.refreshCurrentEntry({ language: message.language as string });
+				break;
+			case 'expandArticle':
+				void this.expandCurrentEntry();
+				break;
+			case 'confirmContextReview':
+				this.resolveContextReview(message.reviewId as number, {
+					sections: Array.isArray(message.sections) ? message.sections as ContextSectionKey[] : [],
+					extraInstructions: String(message.extraInstructions ?? '')
+				});
+				break;
+			case 'cancelContextReview':
+				this.resolveContextReview(message.reviewId as number, undefined);
+				break;
+			case 'changeModelType':
+				if (isDeepwikiModelType(message.modelType)) {
+					void this.refreshCurrentEntry({ modelType: message.modelType });
+				}
+				break;
 		}
 	}
 
@@ -162,8 +289,11 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 		const content = `# DeepWiki: ${entry.title}\n\n` +
 			`**Symbol:** ${entry.title}\n` +
 			`**Kind:** ${entry.symbolKindName || 'Unknown'}\n` +
-			`**Location:** ${entry.filePath}:${entry.line}\n\n` +
-			`---\n\n` +
+			`**Location:** ${formatWorkspacePath(entry)}:${entry.line}\n` +
+			(entry.language ? `**Language:** ${entry.language}\n` : '') +
+			(entry.servedModelType ? `**Model Tier:** ${modelTypeLabel(entry.servedModelType)}\n` : '') +
+			(entry.stats?.requestId ? `**Request ID:** ${entry.stats.requestId}\n` : '') +
+			`\n---\n\n` +
 			entry.markdown;
 
 		const doc = await vscode.workspace.openTextDocument({
@@ -187,58 +317,72 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 		sections.push('');
 		sections.push(`**Symbol:** ${entry.title}`);
 		sections.push(`**Kind:** ${entry.symbolKindName || 'Unknown'}`);
-		sections.push(`**Location:** ${entry.filePath}:${entry.line}`);
+		sections.push(`**Location:** ${formatWorkspacePath(entry)}:${entry.line}`);
 		sections.push('');
 		sections.push('---');
 		sections.push('');
 
-		if (entry.fileContext) {
-			sections.push('## File Context');
+		// 导出生成文章时实际发送的内容；旧版本的条目没有记录，按当前设置重新组装
+		const context = entry.sentContext ?? toSentContext(assembleContext({ ...entry, symbolUri: resolveWorkspacePath(entry).toString() }));
+		if (context.sections.length > 0) {
+			sections.push('## Context Size');
 			sections.push('');
-			sections.push('```');
-			sections.push(entry.fileContext);
-			sections.push('```');
+			sections.push('| Section | Sent | Original | Truncated lines |');
+			sections.push('| --- | --- | --- | --- |');
+			for (const section of context.sections) {
+				sections.push(`| ${section.title} | ${formatContextSize(section.finalChars)} | ${formatContextSize(section.originalChars)} | ${section.truncatedLines} |`);
+			}
+			const budget = context.limitChars > 0 ? ` (budget ${formatContextSize(context.limitChars)})` : '';
+			sections.push(`| **Total** | ${formatContextSize(context.totalChars)}${budget} | | |`);
 			sections.push('');
 		}
 
-		if (entry.usageContext) {
-			sections.push('## Usage Context');
+		if (entry.extraInstructions) {
+			sections.push('## Extra Instructions');
 			sections.push('');
-			sections.push('```');
-			sections.push(entry.usageContext);
-			sections.push('```');
+			sections.push(entry.extraInstructions);
 			sections.push('');
 		}
 
-		if (entry.traceContext) {
-			sections.push('## Trace Context');
+		// 脱敏只列出类型和次数，不包含被替换的原文
+		const redactions = Object.entries(context.redaction.counts);
+		if (redactions.length > 0 || context.redaction.deniedPaths.length > 0) {
+			sections.push('## Redactions');
 			sections.push('');
-			sections.push('```');
-			sections.push(entry.traceContext);
-			sections.push('```');
+			for (const [kind, count] of redactions) {
+				sections.push(`- \`${kind}\`: ${count}`);
+			}
+			for (const deniedPath of context.redaction.deniedPaths) {
+				sections.push(`- Content removed from denylisted path: ${deniedPath}`);
+			}
 			sections.push('');
 		}
 
-		if (entry.quickGrepContext) {
-			sections.push('## Quick Grep Context');
+		for (const section of context.sections) {
+			sections.push(`## ${section.title}`);
 			sections.push('');
 			sections.push('```');
-			sections.push(entry.quickGrepContext);
+			sections.push(section.text);
 			sections.push('```');
 			sections.push('');
 		}
 
-		if (entry.fullGrepContext) {
-			sections.push('## Full Grep Context');
-			sections.push('');
-			sections.push('```');
-			sections.push(entry.fullGrepContext);
-			sections.push('```');
-			sections.push('');
+		if (context.sections.length === 0) {
+			sections.push('*No context information available.*');
 		}
 
-		if (!entry.fileContext && !entry.usageContext && !entry.traceContext && !entry.quickGrepContext && !entry.fullGrepContext) {
-			sections.push('*No context information available.*');
+		// 模型生成文章时调用的工具，用于理解文章内容的来源
+		if (entry.toolCalls && entry.toolCalls.length > 0) {
+			sections.push('## Tool Calls');
+			sections.push('');
+			entry.toolCalls.forEach((call, i) => {
+				sections.push(`### ${i + 1}. ${call.tool || 'unknown'}${call.callId ? ` (${call.callId})` : ''}`);
+				sections.push('');
+				sections.push('```json');
+				sections.push(formatToolArguments(call.argumentsJson));
+				sections.push('```');
+				sections.push('');
+			});
 		}
 
 		const content = sections.join('\n');
@@ -262,7 +406,7 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 		const lines: string[] = [];
 		if (entry) {
 			lines.push(
-				`${entry.filePath}:${entry.line}`,
+				`${formatWorkspacePath(entry)}:${entry.line}`,
 				`Symbol: ${entry.title}`
 			);
 			if (entry.symbolKindName) {
@@ -284,22 +428,73 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 
 	private handleNavigate(direction: 'prev' | 'next'): void {
 		if (direction === 'prev' && this.historyIndex > 0) {
+			// 切换条目会打断正在进行的请求，与历史列表跳转一致
+			this.cancelActiveRequest();
 			this.historyIndex--;
 			this.showHistoryEntry();
 			this.updateNavigationContext();
+			this.persistHistory();
 		} else if (direction === 'next' && this.historyIndex < this.history.length - 1) {
+			this.cancelActiveRequest();
 			this.historyIndex++;
 			this.showHistoryEntry();
 			this.updateNavigationContext();
+			this.persistHistory();
 		}
 	}
 
-	/** 使用当前历史记录的上下文信息重新请求 DeepWiki */
-	public async refreshCurrentEntry(): Promise<void> {
+	/** 以快速选择列表展示历史记录，选择后直接跳转到对应文章 */
+	public async showHistoryPicker(): Promise<void> {
+		if (this.history.length === 0) {
+			this.restoreHistory();
+		}
+		if (this.history.length === 0) {
+			void vscode.window.showInformationMessage('暂无 DeepWiki 历史记录');
+			return;
+		}
+		const items = this.history
+			.map((entry, index) => ({
+				label: entry.title,
+				description: `${formatWorkspacePath(entry)}:${entry.line}`,
+				detail: [
+					entry.symbolKindName,
+					entry.requestType === 'summary' ? 'Quick Look' : '',
+					entry.timestamp ? new Date(entry.timestamp).toLocaleString() : ''
+				].filter(Boolean).join(' · '),
+				index
+			}))
+			.reverse();
+		const selected = await vscode.window.showQuickPick(items, {
+			placeHolder: '选择要打开的 DeepWiki 历史文章',
+			matchOnDescription: true,
+			matchOnDetail: true
+		});
+		if (!selected) {
+			return;
+		}
+		// 跳转会打断正在进行的生成
+		this.cancelActiveRequest();
+		this.historyIndex = selected.index;
+		this.updateNavigationContext();
+		this.persistHistory();
+		if (this.view) {
+			this.view.show(true);
+			this.showHistoryEntry();
+		} else {
+			// 视图尚未创建时，resolveWebviewView 会展示当前条目
+			await vscode.commands.executeCommand('contextCodeText.contextView.focus');
+		}
+	}
+
+	/**
+	 * 使用当前历史记录的上下文信息重新请求 DeepWiki
+	 * @param overrides 指定后以该语言/档位重新生成，否则沿用条目生成时的设置
+	 */
+	public async refreshCurrentEntry(overrides: RequestOverrides = {}): Promise<void> {
 		const entry = this.history[this.historyIndex];
 		if (!entry) {
 			// 如果没有历史记录，回退到从编辑器获取
-			void this.updateForEditor(this.currentEditor);
+			void this.updateForEditor(this.currentEditor, overrides);
 			return;
 		}
 
@@ -307,7 +502,11 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 			return;
 		}
 
-		const gen = ++this.updateGeneration;
+		const index = this.historyIndex;
+		const language = overrides.language || entry.language || resolveArticleLanguage();
+		const modelType = overrides.modelType || entry.modelType || resolveModelType();
+		const requestType = overrides.requestType ?? entry.requestType ?? 'article';
+		const { gen, signal } = this.beginRequest();
 
 		// 设置加载状态
 		this.sendInitState({
@@ -317,46 +516,13 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 			isLoading: true,
 			content: `正在重新向 DeepWiki 请求符号 "${entry.title}" 的解释…`,
 			followups: [],
+			language,
+			modelType,
+			requestType,
 			...this.getNavigationState()
 		});
 
 		try {
-			let followupBuffer = '';
-			let articleText = '';
-			this.currentArticle = '';
-			let pendingRender = false;
-
-			const renderState = () => {
-				if (!this.view || gen !== this.updateGeneration) {
-					return;
-				}
-				if (pendingRender) {
-					return;
-				}
-				pendingRender = true;
-				
-				setTimeout(() => {
-					pendingRender = false;
-					if (gen !== this.updateGeneration) { return; }
-					
-					const items = followupBuffer
-						.split(/\r?\n/)
-						.map(s => s.trim())
-						.filter(Boolean);
-					const seen = new Set<string>();
-					const unique: string[] = [];
-					for (const it of items) {
-						if (!seen.has(it)) {
-							seen.add(it);
-							unique.push(it);
-						}
-					}
-					
-					this.currentArticle = articleText;
-					this.sendUpdateContent(articleText, unique);
-				}, 50);
-			};
-
 			// 更新标题和符号信息
 			this.sendInitState({
 				title: entry.title,
@@ -365,69 +531,336 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 				isLoading: true,
 				content: '（流式加载中…）',
 				followups: [],
+				language,
+				modelType,
+				requestType,
 				...this.getNavigationState()
 			});
 
-			// 使用历史记录中保存的上下文信息重新请求
-			await streamDeepwikiArticle({
+			// 使用历史记录中保存的上下文信息重新请求（总是绕过缓存，结果写回缓存）
+			let params: DeepwikiContextParams = {
 				symbolName: entry.title,
-				symbolUri: `file://${entry.filePath}`,
+				symbolUri: resolveWorkspacePath(entry).toString(),
 				symbolType: entry.symbolKind,
 				fileContext: entry.fileContext,
 				usageContext: entry.usageContext,
 				traceContext: entry.traceContext,
 				quickGrepContext: entry.quickGrepContext,
-				fullGrepContext: entry.fullGrepContext
-			}, (m: DeepwikiStreamMessage) => {
-				if (!this.view || gen !== this.updateGeneration) {
+				fullGrepContext: requestType === 'summary' ? undefined : entry.fullGrepContext,
+				extraInstructions: entry.extraInstructions,
+				language,
+				modelType,
+				requestType
+			};
+			let reviewedFields: Partial<HistoryEntry> = {};
+			if (this.shouldReviewContext()) {
+				const reviewed = await this.reviewContext(gen, signal, params);
+				if (gen !== this.updateGeneration) { return; }
+				if (!reviewed) {
+					// 取消发送时回到原来的文章
+					this.showHistoryEntry();
 					return;
 				}
-				if (m.type === 'article' && (m as { text?: string }).text) {
-					articleText += String((m as { text?: string }).text);
-					renderState();
-				} else if (m.type === 'followup' && (m as { text?: string }).text) {
-					followupBuffer += String((m as { text?: string }).text);
-					renderState();
-				} else if (m.type === 'done') {
-					renderState();
-					this.sendLoadingDone();
-				}
-			});
-			if (gen !== this.updateGeneration) { return; }
-			renderState();
-			this.sendLoadingDone();
-
-			// 更新当前历史记录条目（而不是新增）
-			if (articleText) {
-				const followups = followupBuffer
-					.split(/\r?\n/)
-					.map(s => s.trim())
-					.filter(Boolean)
-					.filter((v, i, a) => a.indexOf(v) === i);
-				
-				// 更新当前条目
-				this.history[this.historyIndex] = {
-					...entry,
-					markdown: articleText,
-					followups
+				params = reviewed;
+				reviewedFields = reviewedContextFields(params);
+			}
+			const result = await this.streamIntoView(gen, signal, params);
+			if (!result) { return; }
+
+			if (result.articleText && !result.stopped && entry.cacheSymbol) {
+				void this.articleCache.put(this.buildCacheKey(entry.cacheSymbol, params), {
+					markdown: result.articleText,
+					followups: result.followups,
+					servedModelType: result.servedModelType,
+					toolCalls: result.toolCalls
+				});
+			}
+
+			// 更新当前历史记录条目（而不是新增）；被中止的半成品不覆盖已有文章
+			if (result.articleText && !result.stopped && this.history[index]) {
+				this.history[index] = {
+					...this.history[index],
+					...reviewedFields,
+					markdown: result.articleText,
+					followups: result.followups,
+					language,
+					modelType,
+					servedModelType: result.servedModelType,
+					requestType,
+					cachedAt: undefined,
+					cacheStale: undefined,
+					timestamp: Date.now(),
+					stats: result.stats,
+					toolCalls: result.toolCalls,
+					sentContext: result.sentContext
 				};
+				this.persistHistory();
 			}
 		} catch (err) {
 			if (gen !== this.updateGeneration) { return; }
-			const message = err instanceof Error ? err.message : String(err);
-			
+			this.showRequestError(err, this.getNavigationState());
+		} finally {
+			this.finishRequest(gen);
+		}
+	}
+
+	/** 将当前的摘要条目升级为完整文章：复用已缓存的上下文，仅补充全量 grep */
+	public async expandCurrentEntry(): Promise<void> {
+		const entry = this.history[this.historyIndex];
+		if (!entry || entry.requestType !== 'summary' || !this.view) {
+			return;
+		}
+		if (!entry.fullGrepContext) {
+			// 全量 grep 也算作一次请求：再次点击、切换条目或新的请求都会使其结果作废
+			const { gen, signal } = this.beginRequest();
 			this.sendInitState({
-				title: 'Error',
-				symbolKindName: '',
-				symbolKind: 0,
-				isLoading: false,
-				content: `DeepWiki 请求失败或解析出错：\n\n\`${message}\``,
+				title: entry.title,
+				symbolKindName: entry.symbolKindName,
+				symbolKind: entry.symbolKind,
+				isLoading: true,
+				content: `正在搜索工作区，为符号 "${entry.title}" 准备完整文章的上下文…`,
 				followups: [],
+				language: entry.language || resolveArticleLanguage(),
+				modelType: entry.modelType || resolveModelType(),
+				requestType: 'article',
 				...this.getNavigationState()
 			});
+			try {
+				const position = new vscode.Position(Math.max(0, entry.line - 1), entry.character ?? 0);
+				const rich = await this.nodeCreator.getRichNode(resolveWorkspacePath(entry), position);
+				const fullGrepContext = rich ? await rich.getGrepContext() : undefined;
+				if (gen !== this.updateGeneration) { return; }
+				if (signal.aborted) {
+					// 搜索期间用户停止了生成，回到原来的摘要
+					this.showHistoryEntry();
+					return;
+				}
+				entry.fullGrepContext = redactContextFields({ fullGrepContext, symbolUri: resolveWorkspacePath(entry).toString() }).fullGrepContext;
+			} catch (err) {
+				if (gen !== this.updateGeneration) { return; }
+				this.showRequestError(err, this.getNavigationState());
+				return;
+			} finally {
+				this.finishRequest(gen);
+			}
+		}
+		await this.refreshCurrentEntry({ requestType: 'article' });
+	}
+
+	/** 清空磁盘上的文章缓存 */
+	public async clearCache(): Promise<void> {
+		const count = await this.articleCache.clear();
+		void vscode.window.showInformationMessage(`已清除 ${count} 篇缓存的 DeepWiki 文章`);
+	}
+
+	private buildCacheKey(symbol: { uri: string; range: string }, params: DeepwikiContextParams): ArticleCacheKey {
+		return {
+			symbolUri: symbol.uri,
+			range: symbol.range,
+			symbolKind: params.symbolType,
+			language: params.language,
+			modelType: params.modelType,
+			requestType: params.requestType ?? 'article',
+			contextHash: contextFingerprint(params)
+		};
+	}
+
+	/** 停止当前正在进行的生成，保留已经流式输出的内容 */
+	public stopGenerating(): void {
+		this.activeRequest?.abort();
+	}
+
+	/** 中止当前请求并使其后续帧全部失效 */
+	private cancelActiveRequest(): void {
+		++this.updateGeneration;
+		this.activeRequest?.abort();
+		this.activeRequest = undefined;
+		this.setGenerating(false);
+	}
+
+	/** 开始一次新的请求：中止上一个仍在进行的流，并返回新的代次与取消信号 */
+	private beginRequest(): { gen: number; signal: AbortSignal } {
+		this.activeRequest?.abort();
+		const controller = new AbortController();
+		this.activeRequest = controller;
+		this.setGenerating(true);
+		return { gen: ++this.updateGeneration, signal: controller.signal };
+	}
+
+	private finishRequest(gen: number): void {
+		if (gen !== this.updateGeneration) {
+			return;
+		}
+		this.activeRequest = undefined;
+		this.setGenerating(false);
+	}
+
+	private setGenerating(value: boolean): void {
+		void vscode.commands.executeCommand('setContext', 'contextCodeText.isGenerating', value);
+	}
+
+	private shouldReviewContext(): boolean {
+		return vscode.workspace.getConfiguration('context-code-text').get<boolean>('reviewContextBeforeSend', false);
+	}
+
+	/**
+	 * 发送前在 webview 中展示组装好的上下文（已脱敏、按预算裁剪），等待用户确认。
+	 * 返回按用户选择调整后的参数；取消、停止生成或被新的请求取代时返回 undefined。
+	 */
+	private reviewContext(gen: number, signal: AbortSignal, params: DeepwikiContextParams): Promise<DeepwikiContextParams | undefined> {
+		const view = this.view;
+		if (!view || signal.aborted) {
+			return Promise.resolve(undefined);
+		}
+		const context = assembleContext(params);
+		this.pendingReview?.resolve(undefined);
+		return new Promise(resolve => {
+			let settled = false;
+			const finish = (result: ContextReviewResult | undefined) => {
+				if (settled) { return; }
+				settled = true;
+				signal.removeEventListener('abort', onAbort);
+				if (this.pendingReview?.id === gen) {
+					this.pendingReview = undefined;
+				}
+				resolve(result && gen === this.updateGeneration ? applyReviewedContext(params, context, result.sections, result.extraInstructions) : undefined);
+			};
+			const onAbort = () => finish(undefined);
+			signal.addEventListener('abort', onAbort);
+			this.pendingReview = { id: gen, resolve: finish };
+			void view.webview.postMessage({
+				type: 'showContextReview',
+				reviewId: gen,
+				sections: context.sections.map(section => ({
+					key: section.key,
+					title: section.title,
+					text: section.text,
+					chars: section.finalChars,
+					tokens: approximateTokens(section.finalChars),
+					originalChars: section.originalChars,
+					truncatedLines: section.truncatedLines
+				})),
+				redactions: context.redaction.counts,
+				limitChars: context.limitChars,
+				extraInstructions: params.extraInstructions ?? ''
+			});
+		});
+	}
+
+	private resolveContextReview(reviewId: number, result: ContextReviewResult | undefined): void {
+		if (this.pendingReview?.id === reviewId) {
+			this.pendingReview.resolve(result);
 		}
 	}
 
+	/**
+	 * 流式请求 DeepWiki 并把增量内容推送到 webview。
+	 * 返回 undefined 表示该请求已被更新的请求取代；stopped 表示用户主动停止了生成。
+	 */
+	private async streamIntoView(
+		gen: number,
+		signal: AbortSignal,
+		params: DeepwikiContextParams
+	): Promise<StreamResult | undefined> {
+		let followupBuffer = '';
+		let servedModelType: DeepwikiModelType | undefined;
+		let stats: DeepwikiRequestStats | undefined;
+		let sentContext: SentContext | undefined;
+		const toolCalls: DeepwikiToolCall[] = [];
+		// 已推送给 webview 的进度百分比，变化不足 1% 时不再推送
+		let progressPercent = -1;
+		let articleText = '';
+		this.currentArticle = '';
+		let pendingRender = false;
+
+		const renderState = () => {
+			if (!this.view || gen !== this.updateGeneration) {
+				return;
+			}
+			// 防抖：如果已经有待处理的渲染，跳过
+			if (pendingRender) {
+				return;
+			}
+			pendingRender = true;
+			
+			// 延迟一小段时间，合并多次快速更新
+			setTimeout(() => {
+				pendingRender = false;
+				if (gen !== this.updateGeneration) { return; }
+				
+				this.currentArticle = articleText;
+				// 直接发送原始 markdown，webview 端使用 Markstream Vue 进行流式渲染
+				this.sendUpdateContent(articleText, splitFollowups(followupBuffer));
+			}, 50);
+		};
+
+		let stopped = false;
+		try {
+			await streamDeepwikiArticle(params, (m: DeepwikiStreamMessage) => {
+				if (!this.view || gen !== this.updateGeneration) {
+					return;
+				}
+				if (m.type === 'article' && m.text) {
+					articleText += m.text;
+					renderState();
+				} else if (m.type === 'followup' && m.text) {
+					followupBuffer += m.text;
+					renderState();
+				} else if (m.type === 'modelType') {
+					servedModelType = m.modelType;
+					void this.view.webview.postMessage({ type: 'setServedModelType', modelType: m.modelType });
+				} else if (m.type === 'retry') {
+					void this.view.webview.postMessage({
+						type: 'setAttempt',
+						attempt: m.attempt,
+						maxAttempts: m.maxAttempts,
+						reason: m.reason
+					});
+				} else if (m.type === 'progress') {
+					const percent = Math.round(m.progress * 100);
+					if (percent !== progressPercent) {
+						progressPercent = percent;
+						void this.view.webview.postMessage({ type: 'setProgress', progress: m.progress });
+					}
+				} else if (m.type === 'toolCall') {
+					const index = toolCalls.findIndex(c => c.callId === m.toolCall.callId);
+					if (index >= 0) {
+						toolCalls[index] = m.toolCall;
+					} else {
+						toolCalls.push(m.toolCall);
+					}
+					void this.view.webview.postMessage({ type: 'upsertToolCall', toolCall: m.toolCall });
+				} else if (m.type === 'stats') {
+					stats = m.stats;
+					void this.view.webview.postMessage({ type: 'setStats', stats: m.stats });
+				} else if (m.type === 'context') {
+					sentContext = toSentContext(m.context);
+				} else if (m.type === 'modelDowngrade') {
+					void vscode.window.showWarningMessage(
+						`DeepWiki ${modelTypeLabel(m.from)} 档位容量不足，已自动降级为 ${modelTypeLabel(m.to)} 重试。`
+					);
+				} else if (m.type === 'done') {
+					renderState();
+					this.sendLoadingDone();
+				}
+			}, signal);
+		} catch (err) {
+			if (gen !== this.updateGeneration) { return undefined; }
+			if (!isAbortError(err)) {
+				throw err;
+			}
+			stopped = true;
+		}
+		if (gen !== this.updateGeneration) { return undefined; }
+		if (stopped && !articleText) {
+			this.sendUpdateContent('（已停止生成）', []);
+		} else {
+			renderState();
+		}
+		this.sendLoadingDone();
+		return { articleText, followups: splitFollowups(followupBuffer), stopped, servedModelType, stats, toolCalls, sentContext };
+	}
+
 	/** 供命令使用的公开导航方法 */
 	public goBack(): void {
 		this.handleNavigate('prev');
@@ -465,6 +898,14 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 			isLoading: false,
 			content: entry.markdown,
 			followups: entry.followups,
+			language: entry.language,
+			modelType: entry.modelType,
+			servedModelType: entry.servedModelType,
+			requestType: entry.requestType,
+			cachedAt: entry.cachedAt,
+			cacheStale: entry.cacheStale,
+			stats: entry.stats,
+			toolCalls: entry.toolCalls,
 			canGoPrev: this.historyIndex > 0,
 			canGoNext: this.historyIndex < this.history.length - 1
 		});
@@ -475,9 +916,48 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 		if (this.historyIndex < this.history.length - 1) {
 			this.history = this.history.slice(0, this.historyIndex + 1);
 		}
-		this.history.push(entry);
+		this.history.push({ ...entry, timestamp: entry.timestamp ?? Date.now() });
 		this.historyIndex = this.history.length - 1;
 		this.updateNavigationContext();
+		this.persistHistory();
+	}
+
+	/** 从 workspaceState 恢复上次会话的历史记录 */
+	private restoreHistory(): void {
+		const saved = this.workspaceState.get<PersistedHistory>(HISTORY_STATE_KEY);
+		if (!saved || (saved.version !== 1 && saved.version !== 2) || !Array.isArray(saved.entries) || saved.entries.length === 0) {
+			return;
+		}
+		this.history = saved.version === 1
+			? saved.entries.map(entry => ({ ...entry, ...redactContextFields({ ...entry, symbolUri: resolveWorkspacePath(entry).toString() }) }))
+			: saved.entries;
+		this.historyIndex = Math.min(Math.max(saved.index, 0), this.history.length - 1);
+		this.updateNavigationContext();
+	}
+
+	/** 将历史记录写入 workspaceState，超出条目数或大小限制时丢弃最旧的条目 */
+	private persistHistory(): void {
+		const config = vscode.workspace.getConfiguration('context-code-text');
+		const maxEntries = Math.max(1, config.get<number>('history.maxEntries', 50));
+		const maxBytes = Math.max(1, config.get<number>('history.maxSizeMB', 5)) * 1024 * 1024;
+
+		let dropped = Math.max(0, this.history.length - maxEntries);
+		const sizes = this.history.map(entry => Buffer.byteLength(JSON.stringify(entry), 'utf8'));
+		let totalBytes = sizes.slice(dropped).reduce((sum, size) => sum + size, 0);
+		// 至少保留最新的一条
+		while (dropped < this.history.length - 1 && totalBytes > maxBytes) {
+			totalBytes -= sizes[dropped];
+			dropped++;
+		}
+		if (dropped > 0) {
+			this.history = this.history.slice(dropped);
+			// 当前条目被裁掉时停在最旧的保留条目上
+			this.historyIndex = Math.max(this.historyIndex - dropped, 0);
+			this.updateNavigationContext();
+		}
+
+		const state: PersistedHistory = { version: 2, index: this.historyIndex, entries: this.history };
+		void this.workspaceState.update(HISTORY_STATE_KEY, state);
 	}
 
 	private getNavigationState(): { canGoPrev: boolean; canGoNext: boolean } {
@@ -506,7 +986,9 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 			isDark: themeConfig.isDark,
 			shikiThemeDark: themeConfig.darkTheme,
 			shikiThemeLight: themeConfig.lightTheme,
-			iconBaseUri
+			iconBaseUri,
+			languages: ARTICLE_LANGUAGES,
+			modelTiers: MODEL_TIER_OPTIONS
 		};
 		void this.view?.webview.postMessage({ type: 'initState', state: nextState });
 	}
@@ -542,7 +1024,7 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 		void this.view?.webview.postMessage({ type: 'loadingDone' });
 	}
 
-	public async updateForEditor(editor: vscode.TextEditor | undefined): Promise<void> {
+	public async updateForEditor(editor: vscode.TextEditor | undefined, overrides: RequestOverrides = {}): Promise<void> {
 		this.currentEditor = editor;
 		
 		if (!this.view) {
@@ -591,7 +1073,10 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 		const name = doc.getText(wordRange);
 		const location = `${doc.uri.fsPath}:${wordRange.start.line + 1}`;
 
-		const gen = ++this.updateGeneration;
+		const language = resolveArticleLanguage(overrides.language);
+		const modelType = resolveModelType(overrides.modelType);
+		const requestType = overrides.requestType ?? 'article';
+		const { gen, signal } = this.beginRequest();
 
 		// 设置加载状态
 		this.sendInitState({
@@ -601,6 +1086,9 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 			isLoading: true,
 			content: `正在向 DeepWiki 请求符号 "${name}" 在 ${location} 的解释…`,
 			followups: [],
+			language,
+			modelType,
+			requestType,
 			canGoPrev: false,
 			canGoNext: false
 		});
@@ -623,57 +1111,16 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 				return;
 			}
 
-			const [fileContext, usageContext, traceContext, quickGrepContext, fullGrepContext, symbolKindText] = await Promise.all([
-				rich.getFileContext(),
-				rich.getUsageContext(),
-				rich.getTraceContext(),
-				rich.getQuickGrepContext(),
-				rich.getGrepContext(),
+			// 摘要模式使用较轻量的摘要上下文，不运行全量 grep
+			const [{ fileContext, usageContext, traceContext, quickGrepContext }, fullGrepContext, symbolKindText] = await Promise.all([
+				rich.getSummarySections(),
+				requestType === 'summary' ? Promise.resolve(undefined) : rich.getGrepContext(),
 				rich.getSymbolKindText()
 			]);
 			if (gen !== this.updateGeneration) { return; }
 
 			const symbolType = rich.getSymbolKind ? await rich.getSymbolKind() : 0;
 
-			let followupBuffer = '';
-			let articleText = '';
-			this.currentArticle = '';
-			let pendingRender = false;
-
-			const renderState = () => {
-				if (!this.view || gen !== this.updateGeneration) {
-					return;
-				}
-				// 防抖：如果已经有待处理的渲染，跳过
-				if (pendingRender) {
-					return;
-				}
-				pendingRender = true;
-				
-				// 延迟一小段时间，合并多次快速更新
-				setTimeout(() => {
-					pendingRender = false;
-					if (gen !== this.updateGeneration) { return; }
-					
-					const items = followupBuffer
-						.split(/\r?\n/)
-						.map(s => s.trim())
-						.filter(Boolean);
-					const seen = new Set<string>();
-					const unique: string[] = [];
-					for (const it of items) {
-						if (!seen.has(it)) {
-							seen.add(it);
-							unique.push(it);
-						}
-					}
-					
-					this.currentArticle = articleText;
-					// 直接发送原始 markdown，webview 端使用 Markstream Vue 进行流式渲染
-					this.sendUpdateContent(articleText, unique);
-				}, 50);
-			};
-
 			// 更新标题和符号信息
 			this.sendInitState({
 				title: name,
@@ -682,10 +1129,13 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 				isLoading: true,
 				content: '（流式加载中…）',
 				followups: [],
+				language,
+				modelType,
+				requestType,
 				...this.getNavigationState()
 			});
 
-			await streamDeepwikiArticle({
+			let params: DeepwikiContextParams = {
 				symbolName: name,
 				symbolUri: doc.uri.toString(),
 				symbolType,
@@ -693,49 +1143,94 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 				usageContext: usageContext ?? undefined,
 				traceContext: traceContext ?? undefined,
 				quickGrepContext: quickGrepContext ?? undefined,
-				fullGrepContext: fullGrepContext ?? undefined
-			}, (m: DeepwikiStreamMessage) => {
-				if (!this.view || gen !== this.updateGeneration) {
+				fullGrepContext: fullGrepContext ?? undefined,
+				language,
+				modelType,
+				requestType
+			};
+			const cacheSymbol = { uri: rich.getUri().toString(), range: makeIdFromRange(rich.getRange()) };
+			let cacheKey = this.buildCacheKey(cacheSymbol, params);
+			let historyBase: Omit<HistoryEntry, 'markdown' | 'followups'> = {
+				title: name,
+				symbolKindName: symbolKindText ?? '',
+				symbolKind: symbolType,
+				// 符号位置信息
+				...toWorkspacePath(doc.uri),
+				line: wordRange.start.line + 1,
+				character: wordRange.start.character,
+				// 上下文信息：落盘前先脱敏
+				...redactContextFields(params),
+				language,
+				modelType,
+				requestType,
+				cacheSymbol
+			};
+
+			// 命中缓存时直接展示，不再请求 DeepWiki
+			const cached = await this.articleCache.get(cacheKey);
+			if (gen !== this.updateGeneration) { return; }
+			if (cached) {
+				this.pushHistory({
+					...historyBase,
+					markdown: cached.markdown,
+					followups: cached.followups,
+					servedModelType: cached.servedModelType as DeepwikiModelType | undefined,
+					toolCalls: cached.toolCalls,
+					// 缓存键包含上下文指纹，与当前组装的内容一致
+					sentContext: toSentContext(assembleContext(params)),
+					cachedAt: cached.createdAt,
+					cacheStale: cached.stale
+				});
+				this.showHistoryEntry();
+				return;
+			}
+
+			// 审阅模式：用户确认后才发送，按确认的内容更新请求、缓存键和历史记录
+			if (this.shouldReviewContext()) {
+				const reviewed = await this.reviewContext(gen, signal, params);
+				if (gen !== this.updateGeneration) { return; }
+				if (!reviewed) {
+					this.sendInitState({
+						title: name,
+						symbolKindName: symbolKindText ?? '',
+						symbolKind: symbolType,
+						isLoading: false,
+						content: '已取消发送，上下文没有发送给 DeepWiki。',
+						followups: [],
+						language,
+						modelType,
+						requestType,
+						...this.getNavigationState()
+					});
 					return;
 				}
-				if (m.type === 'article' && (m as { text?: string }).text) {
-					articleText += String((m as { text?: string }).text);
-					renderState();
-				} else if (m.type === 'followup' && (m as { text?: string }).text) {
-					followupBuffer += String((m as { text?: string }).text);
-					renderState();
-				} else if (m.type === 'done') {
-					renderState();
-					this.sendLoadingDone();
-				}
-			});
-			if (gen !== this.updateGeneration) { return; }
-			renderState();
-			this.sendLoadingDone();
+				params = reviewed;
+				cacheKey = this.buildCacheKey(cacheSymbol, params);
+				historyBase = { ...historyBase, ...reviewedContextFields(params) };
+			}
+
+			const result = await this.streamIntoView(gen, signal, params);
+			if (!result) { return; }
+
+			if (result.articleText && !result.stopped) {
+				void this.articleCache.put(cacheKey, {
+					markdown: result.articleText,
+					followups: result.followups,
+					servedModelType: result.servedModelType,
+					toolCalls: result.toolCalls
+				});
+			}
 
 			// 保存到历史记录
-			if (articleText) {
-				const followups = followupBuffer
-					.split(/\r?\n/)
-					.map(s => s.trim())
-					.filter(Boolean)
-					.filter((v, i, a) => a.indexOf(v) === i);
-				
+			if (result.articleText) {
 				this.pushHistory({
-					title: name,
-					symbolKindName: symbolKindText ?? '',
-					symbolKind: symbolType,
-					markdown: articleText,
-					followups,
-					// 符号位置信息
-					filePath: doc.uri.fsPath,
-					line: wordRange.start.line + 1,
-					// 上下文信息
-					fileContext: fileContext ?? undefined,
-					usageContext: usageContext ?? undefined,
-					traceContext: traceContext ?? undefined,
-					quickGrepContext: quickGrepContext ?? undefined,
-					fullGrepContext: fullGrepContext ?? undefined
+					...historyBase,
+					markdown: result.articleText,
+					followups: result.followups,
+					servedModelType: result.servedModelType,
+					stats: result.stats,
+					toolCalls: result.toolCalls,
+					sentContext: result.sentContext
 				});
 			}
 		} catch (err) {
@@ -755,18 +1250,41 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 					canGoNext: false
 				});
 			} else {
-				this.sendInitState({
-					title: 'Error',
-					symbolKindName: '',
-					symbolKind: 0,
-					isLoading: false,
-					content: `DeepWiki 请求失败或解析出错：\n\n\`${message}\``,
-					followups: [],
-					canGoPrev: false,
-					canGoNext: false
+				this.showRequestError(err, { canGoPrev: false, canGoNext: false });
+			}
+		} finally {
+			this.finishRequest(gen);
+		}
+	}
+
+	/** 在 webview 中展示请求错误；服务端返回的已知错误码附带可操作的提示 */
+	private showRequestError(err: unknown, navigation: { canGoPrev: boolean; canGoNext: boolean }): void {
+		const requestId = errorRequestId(err);
+		// 附上 request id，便于与 Windsurf 支持对照
+		const message = (err instanceof Error ? err.message : String(err)) + (requestId ? `（request id: ${requestId}）` : '');
+		let content = `DeepWiki 请求失败或解析出错：\n\n\`${message}\``;
+		// 缺少凭据或 JWT 自动刷新失败时按 unauthenticated 处理，提示重新登录
+		const code = err instanceof DeepwikiError ? err.code : err instanceof WindsurfAuthError ? 'unauthenticated' : undefined;
+		if (code) {
+			const hint = deepwikiErrorHint(code);
+			content = `${hint?.text ?? 'DeepWiki 服务端返回错误。'}\n\n\`${code}: ${message}\``;
+			if (hint) {
+				void vscode.window.showErrorMessage(requestId ? `${hint.text}（request id: ${requestId}）` : hint.text, hint.actionLabel).then(choice => {
+					if (choice === hint.actionLabel) {
+						void vscode.commands.executeCommand(hint.command, ...hint.args);
+					}
 				});
 			}
 		}
+		this.sendInitState({
+			title: 'Error',
+			symbolKindName: '',
+			symbolKind: 0,
+			isLoading: false,
+			content,
+			followups: [],
+			...navigation
+		});
 	}
 
 	private getWebviewHtml(webview: vscode.Webview): string {
@@ -845,3 +1363,68 @@ export class ContextWebviewViewProvider implements vscode.WebviewViewProvider {
 		return text;
 	}
 }
+
+/** 将流式累积的 follow-up 文本拆分为去重后的问题列表 */
+function splitFollowups(buffer: string): string[] {
+	return buffer
+		.split(/\r?\n/)
+		.map(s => s.trim())
+		.filter(Boolean)
+		.filter((v, i, a) => a.indexOf(v) === i);
+}
+
+/** 审阅后实际发送的上下文（已脱敏、已裁剪），写回历史记录以便刷新 */
+function reviewedContextFields(params: DeepwikiContextParams): Pick<HistoryEntry, 'fileContext' | 'usageContext' | 'traceContext' | 'quickGrepContext' | 'fullGrepContext' | 'extraInstructions'> {
+	return {
+		...redactContextFields(params),
+		extraInstructions: params.extraInstructions
+	};
+}
+
+function toSentContext(context: AssembledContext): SentContext {
+	const { text, ...rest } = context;
+	return { ...rest, totalChars: text.length };
+}
+
+/** 工具参数 JSON 格式化输出；流式中断导致 JSON 不完整时原样返回 */
+function formatToolArguments(argumentsJson: string): string {
+	try {
+		return JSON.stringify(JSON.parse(argumentsJson), null, 2);
+	} catch {
+		return argumentsJson;
+	}
+}
+
+/** 上下文大小：字符数与近似 token 数 */
+function formatContextSize(chars: number): string {
+	return `${chars.toLocaleString('en-US')} chars (~${approximateTokens(chars).toLocaleString('en-US')} tokens)`;
+}
+
+/** 常见 Connect 错误码对应的处理建议与快捷操作 */
+function deepwikiErrorHint(code: ConnectErrorCode): { text: string; actionLabel: string; command: string; args: unknown[] } | undefined {
+	switch (code) {
+		case 'unauthenticated':
+			return {
+				text: 'Windsurf 登录已失效且无法自动刷新，请重新登录后再试。',
+				actionLabel: '重新登录',
+				command: 'context-code-text.loginWindsurf',
+				args: []
+			};
+		case 'resource_exhausted':
+			return {
+				text: 'DeepWiki 额度已用完或请求过于频繁，请稍后再试，或切换到其他模型档位。',
+				actionLabel: '切换模型档位',
+				command: 'workbench.action.openSettings',
+				args: ['context-code-text.modelTier']
+			};
+		case 'permission_denied':
+			return {
+				text: '当前账号无权使用所选的模型档位，请升级订阅或切换到其他档位。',
+				actionLabel: '切换模型档位',
+				command: 'workbench.action.openSettings',
+				args: ['context-code-text.modelTier']
+			};
+		default:
+			return undefined;
+	}
+}
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { DEFAULT_API_BASE_URL } from './config/apiBaseUrl';
+
+/**
+ * Windsurf 账号与凭据存储
+ * 账号列表（显示名称、服务地址）保存在 globalState，API key 与 JWT 按账号保存在 SecretStorage 中，
+ * 不再写入（可能被同步的）settings.json
+ */
+
+export interface WindsurfCredentials {
+	apiKey: string;
+	jwt: string;
+}
+
+export interface WindsurfAccount {
+	id: string;
+	displayName: string;
+	// RegisterUser 返回的 API 服务地址
+	baseUrl: string;
+}
+
+export interface CredentialProvider {
+	/** 账号列表、当前账号或账号凭据发生变化 */
+	readonly onDidChangeAccounts: vscode.Event<void>;
+	listAccounts(): WindsurfAccount[];
+	/** 当前工作区使用的账号：工作区默认账号 > 最近一次选择的账号 > 第一个账号 */
+	getActiveAccount(): WindsurfAccount | undefined;
+	/** 切换账号，同时设为当前工作区的默认账号 */
+	setActiveAccount(id: string): Promise<void>;
+	/** 添加账号；API key 相同的账号视为同一账号并更新 */
+	addAccount(account: Omit<WindsurfAccount, 'id'>, credentials: WindsurfCredentials): Promise<WindsurfAccount>;
+	removeAccount(id: string): Promise<void>;
+	/** 读取账号凭据，缺失的字段为空字符串 */
+	getCredentials(accountId: string): Promise<WindsurfCredentials>;
+	/** 写入账号凭据，只更新传入的字段 */
+	storeCredentials(accountId: string, credentials: Partial<WindsurfCredentials>): Promise<void>;
+}
+
+const ACCOUNTS_STATE_KEY = 'windsurfAccounts';
+const ACTIVE_ACCOUNT_STATE_KEY = 'windsurfActiveAccountId';
+
+// 单账号版本使用的 SecretStorage 键与更早版本写入 settings 的配置项
+const LEGACY_SECRET_KEYS: Record<keyof WindsurfCredentials, string> = {
+	apiKey: 'context-code-text.windsurfApiKey',
+	jwt: 'context-code-text.windsurfJwt'
+};
+const LEGACY_SETTING_KEYS: Record<keyof WindsurfCredentials, string> = {
+	apiKey: 'windsurfApiKey',
+	jwt: 'windsurfJwt'
+};
+
+const CREDENTIAL_FIELDS: (keyof WindsurfCredentials)[] = ['apiKey', 'jwt'];
+
+function secretKey(accountId: string, field: keyof WindsurfCredentials): string {
+	return `context-code-text.account.${accountId}.${field}`;
+}
+
+class SecretStorageCredentialProvider implements CredentialProvider {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeAccounts = this.changeEmitter.event;
+
+	constructor(
+		private readonly secrets: vscode.SecretStorage,
+		private readonly globalState: vscode.Memento,
+		private readonly workspaceState: vscode.Memento
+	) {}
+
+	listAccounts(): WindsurfAccount[] {
+		return this.globalState.get<WindsurfAccount[]>(ACCOUNTS_STATE_KEY, []);
+	}
+
+	getActiveAccount(): WindsurfAccount | undefined {
+		const accounts = this.listAccounts();
+		const workspaceId = this.workspaceState.get<string>(ACTIVE_ACCOUNT_STATE_KEY);
+		const globalId = this.globalState.get<string>(ACTIVE_ACCOUNT_STATE_KEY);
+		return accounts.find(a => a.id === workspaceId)
+			?? accounts.find(a => a.id === globalId)
+			?? accounts[0];
+	}
+
+	async setActiveAccount(id: string): Promise<void> {
+		const previous = this.workspaceState.get<string>(ACTIVE_ACCOUNT_STATE_KEY);
+		await this.workspaceState.update(ACTIVE_ACCOUNT_STATE_KEY, id);
+		try {
+			await this.globalState.update(ACTIVE_ACCOUNT_STATE_KEY, id);
+		} catch (err) {
+			// 只写入了一半时恢复工作区的选择，当前账号保持不变
+			await this.workspaceState.update(ACTIVE_ACCOUNT_STATE_KEY, previous);
+			throw err;
+		}
+		this.changeEmitter.fire();
+	}
+
+	async addAccount(account: Omit<WindsurfAccount, 'id'>, credentials: WindsurfCredentials): Promise<WindsurfAccount> {
+		const accounts = this.listAccounts();
+		let existing: WindsurfAccount | undefined;
+		for (const candidate of accounts) {
+			if ((await this.secrets.get(secretKey(candidate.id, 'apiKey'))) === credentials.apiKey) {
+				existing = candidate;
+				break;
+			}
+		}
+		const saved: WindsurfAccount = { id: existing?.id ?? crypto.randomUUID(), ...account };
+		await this.storeCredentials(saved.id, credentials);
+		await this.globalState.update(
+			ACCOUNTS_STATE_KEY,
+			existing ? accounts.map(a => (a.id === saved.id ? saved : a)) : [...accounts, saved]
+		);
+		await this.setActiveAccount(saved.id);
+		return saved;
+	}
+
+	async removeAccount(id: string): Promise<void> {
+		for (const field of CREDENTIAL_FIELDS) {
+			await this.secrets.delete(secretKey(id, field));
+		}
+		await this.globalState.update(ACCOUNTS_STATE_KEY, this.listAccounts().filter(a => a.id !== id));
+		if (this.workspaceState.get<string>(ACTIVE_ACCOUNT_STATE_KEY) === id) {
+			await this.workspaceState.update(ACTIVE_ACCOUNT_STATE_KEY, undefined);
+		}
+		if (this.globalState.get<string>(ACTIVE_ACCOUNT_STATE_KEY) === id) {
+			await this.globalState.update(ACTIVE_ACCOUNT_STATE_KEY, undefined);
+		}
+		this.changeEmitter.fire();
+	}
+
+	async getCredentials(accountId: string): Promise<WindsurfCredentials> {
+		const [apiKey, jwt] = await Promise.all([
+			this.secrets.get(secretKey(accountId, 'apiKey')),
+			this.secrets.get(secretKey(accountId, 'jwt'))
+		]);
+		return { apiKey: apiKey ?? '', jwt: jwt ?? '' };
+	}
+
+	async storeCredentials(accountId: string, credentials: Partial<WindsurfCredentials>): Promise<void> {
+		for (const field of CREDENTIAL_FIELDS) {
+			const value = credentials[field];
+			if (value !== undefined) {
+				await this.secrets.store(secretKey(accountId, field), value);
+			}
+		}
+		this.changeEmitter.fire();
+	}
+}
+
+let credentialProvider: CredentialProvider | undefined;
+
+export async function initCredentialProvider(context: vscode.ExtensionContext): Promise<void> {
+	credentialProvider = new SecretStorageCredentialProvider(context.secrets, context.globalState, context.workspaceState);
+	await migrateLegacyCredentials(credentialProvider, context.secrets);
+}
+
+export function getCredentialProvider(): CredentialProvider {
+	if (!credentialProvider) {
+		throw new Error('Credential provider has not been initialized');
+	}
+	return credentialProvider;
+}
+
+/**
+ * 把旧版本的单账号凭据（SecretStorage 或 settings 中）迁移为一个账号，
+ * 迁移后删除旧的 SecretStorage 键并清空用户与工作区设置中的值
+ */
+async function migrateLegacyCredentials(provider: CredentialProvider, secrets: vscode.SecretStorage): Promise<void> {
+	const config = vscode.workspace.getConfiguration('context-code-text');
+	const legacy: WindsurfCredentials = { apiKey: '', jwt: '' };
+	const legacySettingKeys: string[] = [];
+	for (const field of CREDENTIAL_FIELDS) {
+		const inspected = config.inspect<string>(LEGACY_SETTING_KEYS[field]);
+		if (inspected?.globalValue !== undefined || inspected?.workspaceValue !== undefined) {
+			legacySettingKeys.push(LEGACY_SETTING_KEYS[field]);
+		}
+		// SecretStorage 中的值比 settings 中的更新
+		legacy[field] = (await secrets.get(LEGACY_SECRET_KEYS[field])) || inspected?.workspaceValue || inspected?.globalValue || '';
+	}
+
+	// 先写入新的存储，再清理旧值，避免迁移中途失败丢失凭据
+	if (legacy.apiKey && provider.listAccounts().length === 0) {
+		await provider.addAccount({ displayName: 'Windsurf', baseUrl: DEFAULT_API_BASE_URL }, legacy);
+		console.log('[context-code-text] Migrated legacy Windsurf credentials to an account');
+	}
+	for (const field of CREDENTIAL_FIELDS) {
+		await secrets.delete(LEGACY_SECRET_KEYS[field]);
+	}
+	for (const key of legacySettingKeys) {
+		const inspected = config.inspect<string>(key);
+		try {
+			if (inspected?.globalValue !== undefined) {
+				await config.update(key, undefined, vscode.ConfigurationTarget.Global);
+			}
+			if (inspected?.workspaceValue !== undefined) {
+				await config.update(key, undefined, vscode.ConfigurationTarget.Workspace);
+			}
+		} catch (err) {
+			console.warn(`[context-code-text] Failed to clear legacy setting ${key}`, err);
+		}
+	}
+}
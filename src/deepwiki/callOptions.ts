@@ -0,0 +1,28 @@
+import type { RpcOptions } from '@protobuf-ts/runtime-rpc';
+import type { RetryPolicy } from '../config/retryPolicy';
+import type { DeepwikiModelType } from '../config/modelTier';
+
+/** 重试前的通知：上一次尝试因暂时性错误失败，等待 delayMs 后发起第 attempt 次尝试 */
+export interface DeepwikiRetryInfo {
+	attempt: number;
+	maxAttempts: number;
+	delayMs: number;
+	reason: string;
+}
+
+/**
+ * GetDeepWiki 调用选项：RpcOptions 之外的字段由拦截器与传输层读取
+ */
+export interface DeepwikiCallOptions extends RpcOptions {
+	// 服务地址，由 auth 拦截器按当前账号填写
+	baseUrl?: string;
+	// 未设置时 retry 拦截器不重试
+	retryPolicy?: RetryPolicy;
+	// 发出请求到收到响应头的最长等待时间，0 或未设置表示不限制
+	connectTimeoutMs?: number;
+	// 流式响应中两次收到数据之间的最长间隔，0 或未设置表示不限制
+	idleTimeoutMs?: number;
+	onRetry?: (info: DeepwikiRetryInfo) => void;
+	// 请求的档位因容量不足被拒绝，已降级重试
+	onModelDowngrade?: (from: DeepwikiModelType, to: DeepwikiModelType) => void;
+}
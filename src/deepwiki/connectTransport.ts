@@ -0,0 +1,312 @@
+import * as zlib from 'zlib';
+import { RpcError, mergeRpcOptions } from '@protobuf-ts/runtime-rpc';
+import type {
+	ClientStreamingCall,
+	DuplexStreamingCall,
+	MethodInfo,
+	RpcMetadata,
+	RpcOptions,
+	RpcTransport,
+	ServerStreamingCall,
+	UnaryCall
+} from '@protobuf-ts/runtime-rpc';
+import { DeepwikiCallOptions } from './callOptions';
+import { DeepwikiError, DeepwikiTimeoutError, connectCodeFromHttpStatus, parseErrorDetails, toConnectErrorCode } from './errors';
+import { createServerStreamingCall } from './streamingCall';
+
+/**
+ * Connect 协议（application/connect+proto）的 server-streaming 传输层
+ * 请求编码、envelope 组帧与响应解析都只在这里实现
+ */
+
+// Connect envelope 的 flag 位
+const CONNECT_COMPRESSED_FLAG = 0x01;
+const CONNECT_END_STREAM_FLAG = 0x02;
+const ENVELOPE_HEADER_LENGTH = 5;
+
+// 生成代码中的服务名与服务端实际路由不同：typeName/method -> 请求路径
+const DEFAULT_METHOD_PATHS: Record<string, string> = {
+	'exa.deepwiki.DeepWikiService/GetDeepWiki': 'exa.api_server_pb.ApiServerService/GetDeepWiki'
+};
+
+// 服务端在响应头与 StreamingStats 中回显的请求 ID
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+const CONNECT_HEADERS: Record<string, string> = {
+	'User-Agent': 'connect-go/1.18.1 (go1.24.6 X:nocoverageredesign,synctest)',
+	'content-type': 'application/connect+proto',
+	'connect-protocol-version': '1',
+	'Accept-Encoding': 'identity',
+	'connect-content-encoding': 'gzip',
+	'connect-accept-encoding': 'gzip',
+	'Accept': '*/*'
+};
+
+export interface ConnectTransportOptions {
+	// 额外的方法路由，覆盖默认映射
+	methodPaths?: Record<string, string>;
+	// 默认使用全局 fetch
+	fetch?: typeof fetch;
+	// 每次调用合并的默认选项
+	defaultOptions?: RpcOptions;
+}
+
+/** 一个 Connect envelope 帧，payload 已解压 */
+export interface ConnectFrame {
+	endStream: boolean;
+	payload: Buffer;
+}
+
+/**
+ * 把一段 payload 编码为 Connect envelope
+ * @param options.compress 默认 gzip 压缩
+ * @param options.endStream 是否为 end-stream 帧（payload 为 JSON）
+ */
+export function encodeEnvelope(payload: Uint8Array, options: { compress?: boolean; endStream?: boolean } = {}): Buffer {
+	const compress = options.compress ?? true;
+	const body = compress ? zlib.gzipSync(payload) : Buffer.from(payload);
+	const frame = Buffer.alloc(ENVELOPE_HEADER_LENGTH + body.length);
+	frame.writeUInt8((compress ? CONNECT_COMPRESSED_FLAG : 0) | (options.endStream ? CONNECT_END_STREAM_FLAG : 0), 0);
+	frame.writeUInt32BE(body.length, 1);
+	body.copy(frame, ENVELOPE_HEADER_LENGTH);
+	return frame;
+}
+
+/** 增量解析 Connect envelope，不完整的帧留到下一块数据 */
+export class EnvelopeDecoder {
+	private buffer = Buffer.alloc(0);
+
+	push(chunk: Uint8Array): ConnectFrame[] {
+		this.buffer = Buffer.concat([this.buffer, chunk]);
+		const frames: ConnectFrame[] = [];
+		while (this.buffer.length >= ENVELOPE_HEADER_LENGTH) {
+			const flags = this.buffer[0];
+			const len = this.buffer.readUInt32BE(1);
+			if (this.buffer.length < ENVELOPE_HEADER_LENGTH + len) {
+				break;
+			}
+			const raw = this.buffer.subarray(ENVELOPE_HEADER_LENGTH, ENVELOPE_HEADER_LENGTH + len);
+			this.buffer = this.buffer.subarray(ENVELOPE_HEADER_LENGTH + len);
+			frames.push({
+				endStream: (flags & CONNECT_END_STREAM_FLAG) !== 0,
+				payload: (flags & CONNECT_COMPRESSED_FLAG) !== 0 ? gunzipOrRaw(raw) : Buffer.from(raw)
+			});
+		}
+		return frames;
+	}
+
+	/** 尚未组成完整帧的字节数；流结束时不为 0 说明响应被截断 */
+	get pendingBytes(): number {
+		return this.buffer.length;
+	}
+}
+
+function gunzipOrRaw(data: Uint8Array): Buffer {
+	try {
+		return zlib.gunzipSync(data);
+	} catch {
+		return Buffer.from(data);
+	}
+}
+
+/** 解析 end-stream 帧的 JSON（{ error?: { code, message, details }, metadata? }） */
+export function parseEndStream(payload: Buffer): { error?: DeepwikiError; trailers: RpcMetadata } {
+	let json: any;
+	try {
+		json = JSON.parse(payload.toString('utf8'));
+	} catch {
+		return { error: new DeepwikiError('internal', 'DeepWiki 返回了无法解析的结束帧'), trailers: {} };
+	}
+	const trailers: RpcMetadata = {};
+	if (json?.metadata && typeof json.metadata === 'object') {
+		for (const [key, value] of Object.entries(json.metadata)) {
+			trailers[key] = Array.isArray(value) ? value.map(String) : String(value);
+		}
+	}
+	const error = json?.error;
+	if (!error) {
+		return { trailers };
+	}
+	return {
+		error: new DeepwikiError(
+			toConnectErrorCode(error.code) ?? 'unknown',
+			String(error.message ?? ''),
+			parseErrorDetails(error.details)
+		),
+		trailers
+	};
+}
+
+/** 非 2xx 响应：响应体通常是 Connect 错误 JSON（{ code, message, details }） */
+async function errorFromResponse(response: Response): Promise<DeepwikiError> {
+	let json: any;
+	try {
+		json = JSON.parse(await response.text());
+	} catch {
+		json = undefined;
+	}
+	const error = new DeepwikiError(
+		toConnectErrorCode(json?.code) ?? connectCodeFromHttpStatus(response.status),
+		String(json?.message || `${response.status} ${response.statusText}`),
+		parseErrorDetails(json?.details),
+		response.status
+	);
+	error.requestId = response.headers.get(REQUEST_ID_HEADER) ?? undefined;
+	return error;
+}
+
+/** 数据帧解码为响应消息；服务端偶尔夹带的 JSON 帧与无法解码的帧返回 undefined */
+function decodeMessage<I extends object, O extends object>(method: MethodInfo<I, O>, payload: Buffer): O | undefined {
+	const trimmed = payload.toString('utf8').trimStart();
+	if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+		return undefined;
+	}
+	try {
+		return method.O.fromBinary(payload, { readUnknownField: false });
+	} catch {
+		return undefined;
+	}
+}
+
+/** 逐块读取响应体；中止时主动 cancel，确保连接立即释放 */
+async function* readBody(response: Response, signal: AbortSignal): AsyncGenerator<Uint8Array> {
+	const reader = response.body?.getReader();
+	if (!reader) {
+		yield new Uint8Array(await response.arrayBuffer());
+		return;
+	}
+	const onAbort = () => { void reader.cancel().catch(() => undefined); };
+	signal.addEventListener('abort', onAbort, { once: true });
+	try {
+		while (true) {
+			const { value, done } = await reader.read();
+			if (done) {
+				return;
+			}
+			yield value;
+		}
+	} finally {
+		signal.removeEventListener('abort', onAbort);
+	}
+}
+
+function headersToMetadata(headers: Headers): RpcMetadata {
+	const metadata: RpcMetadata = {};
+	headers.forEach((value, key) => {
+		metadata[key] = value;
+	});
+	return metadata;
+}
+
+export class ConnectTransport implements RpcTransport {
+	private readonly methodPaths: Record<string, string>;
+	private readonly fetchImpl: typeof fetch;
+
+	constructor(private readonly options: ConnectTransportOptions = {}) {
+		this.methodPaths = { ...DEFAULT_METHOD_PATHS, ...options.methodPaths };
+		this.fetchImpl = options.fetch ?? fetch;
+	}
+
+	mergeOptions(options?: Partial<RpcOptions>): RpcOptions {
+		return mergeRpcOptions(this.options.defaultOptions ?? {}, options);
+	}
+
+	unary<I extends object, O extends object>(method: MethodInfo<I, O>): UnaryCall<I, O> {
+		throw new RpcError(`ConnectTransport 不支持 unary 调用：${method.name}`, 'UNIMPLEMENTED');
+	}
+
+	clientStreaming<I extends object, O extends object>(method: MethodInfo<I, O>): ClientStreamingCall<I, O> {
+		throw new RpcError(`ConnectTransport 不支持 client streaming 调用：${method.name}`, 'UNIMPLEMENTED');
+	}
+
+	duplex<I extends object, O extends object>(method: MethodInfo<I, O>): DuplexStreamingCall<I, O> {
+		throw new RpcError(`ConnectTransport 不支持 duplex 调用：${method.name}`, 'UNIMPLEMENTED');
+	}
+
+	serverStreaming<I extends object, O extends object>(method: MethodInfo<I, O>, input: I, options: RpcOptions): ServerStreamingCall<I, O> {
+		return createServerStreamingCall(method, input, options, async sink => {
+			const callOptions = options as DeepwikiCallOptions;
+			if (!callOptions.baseUrl) {
+				throw new Error(`ConnectTransport: ${method.name} 缺少 baseUrl`);
+			}
+			const url = `${callOptions.baseUrl}/${this.methodPath(method)}`;
+			const headers: Record<string, string> = { ...CONNECT_HEADERS };
+			for (const [key, value] of Object.entries(options.meta ?? {})) {
+				headers[key] = Array.isArray(value) ? value.join(', ') : value;
+			}
+			const body = encodeEnvelope(method.I.toBinary(input));
+
+			// 本次调用专用的 controller：调用方取消或超时都会中止连接
+			const signal = options.abort;
+			const controller = new AbortController();
+			const abortFromCaller = () => controller.abort(signal?.reason);
+			signal?.addEventListener('abort', abortFromCaller, { once: true });
+			let timeoutError: DeepwikiTimeoutError | undefined;
+			let timer: NodeJS.Timeout | undefined;
+			const armTimeout = (phase: 'connect' | 'idle', timeoutMs = 0) => {
+				clearTimeout(timer);
+				if (timeoutMs <= 0) {
+					return;
+				}
+				timer = setTimeout(() => {
+					timeoutError = new DeepwikiTimeoutError(phase, timeoutMs);
+					controller.abort(timeoutError);
+				}, timeoutMs);
+			};
+
+			try {
+				signal?.throwIfAborted();
+				// 连接超时覆盖到收到响应头，之后每收到一块数据重置空闲超时
+				armTimeout('connect', callOptions.connectTimeoutMs);
+				const response = await this.fetchImpl(url, { method: 'POST', headers, body, signal: controller.signal });
+				if (!response.ok) {
+					throw await errorFromResponse(response);
+				}
+				sink.headers(headersToMetadata(response.headers));
+				armTimeout('idle', callOptions.idleTimeoutMs);
+
+				const decoder = new EnvelopeDecoder();
+				let trailers: RpcMetadata = {};
+				for await (const chunk of readBody(response, controller.signal)) {
+					armTimeout('idle', callOptions.idleTimeoutMs);
+					// 已取消的流不再向调用方投递任何消息
+					controller.signal.throwIfAborted();
+					for (const frame of decoder.push(chunk)) {
+						if (frame.endStream) {
+							const end = parseEndStream(frame.payload);
+							if (end.error) {
+								throw end.error;
+							}
+							trailers = end.trailers;
+							continue;
+						}
+						const message = decodeMessage(method, frame.payload);
+						if (message) {
+							sink.message(message);
+						}
+					}
+				}
+				// 中止后 reader.cancel() 会让读取正常结束，不能当作完整的流返回
+				controller.signal.throwIfAborted();
+				if (decoder.pendingBytes > 0) {
+					throw new DeepwikiError('data_loss', `DeepWiki 响应在帧中间被截断（剩余 ${decoder.pendingBytes} 字节）`);
+				}
+				return trailers;
+			} catch (err) {
+				// 超时触发的中止统一报告为 DeepwikiTimeoutError，而不是 AbortError
+				if (timeoutError && !signal?.aborted) {
+					throw timeoutError;
+				}
+				throw err;
+			} finally {
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', abortFromCaller);
+			}
+		});
+	}
+
+	private methodPath(method: MethodInfo): string {
+		const key = `${method.service.typeName}/${method.name}`;
+		return this.methodPaths[key] ?? key;
+	}
+}
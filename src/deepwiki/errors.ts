@@ -0,0 +1,162 @@
+/**
+ * GetDeepWiki 请求的错误类型与分类
+ */
+
+/** Connect 协议错误码，见 https://connectrpc.com/docs/protocol#error-codes */
+export type ConnectErrorCode =
+	| 'canceled'
+	| 'unknown'
+	| 'invalid_argument'
+	| 'deadline_exceeded'
+	| 'not_found'
+	| 'already_exists'
+	| 'permission_denied'
+	| 'resource_exhausted'
+	| 'failed_precondition'
+	| 'aborted'
+	| 'out_of_range'
+	| 'unimplemented'
+	| 'internal'
+	| 'unavailable'
+	| 'data_loss'
+	| 'unauthenticated';
+
+const CONNECT_ERROR_CODES: ReadonlySet<string> = new Set<ConnectErrorCode>([
+	'canceled', 'unknown', 'invalid_argument', 'deadline_exceeded', 'not_found', 'already_exists',
+	'permission_denied', 'resource_exhausted', 'failed_precondition', 'aborted', 'out_of_range',
+	'unimplemented', 'internal', 'unavailable', 'data_loss', 'unauthenticated'
+]);
+
+/** Connect 错误中的 details 项（value 为 base64 编码的 protobuf） */
+export interface DeepwikiErrorDetail {
+	type: string;
+	value: string;
+	debug?: unknown;
+}
+
+/** GetDeepWiki 返回的错误：非 2xx 响应或 Connect end-stream 帧中的 error */
+export class DeepwikiError extends Error {
+	// 服务端分配的请求 ID，便于与 Windsurf 支持对照
+	requestId?: string;
+
+	constructor(
+		readonly code: ConnectErrorCode,
+		message: string,
+		readonly details: DeepwikiErrorDetail[] = [],
+		// 仅当错误来自非 2xx HTTP 响应时存在
+		readonly httpStatus?: number
+	) {
+		super(message || code);
+		this.name = 'DeepwikiError';
+	}
+}
+
+/** 连接或流式响应超时 */
+export class DeepwikiTimeoutError extends Error {
+	requestId?: string;
+
+	constructor(readonly phase: 'connect' | 'idle', readonly timeoutMs: number) {
+		super(phase === 'connect'
+			? `DeepWiki 连接超时：${timeoutMs / 1000} 秒内未收到响应`
+			: `DeepWiki 响应中断：${timeoutMs / 1000} 秒内未收到新的数据`);
+		this.name = 'DeepwikiTimeoutError';
+	}
+}
+
+export function toConnectErrorCode(value: unknown): ConnectErrorCode | undefined {
+	return typeof value === 'string' && CONNECT_ERROR_CODES.has(value) ? value as ConnectErrorCode : undefined;
+}
+
+export function parseErrorDetails(value: unknown): DeepwikiErrorDetail[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	return value
+		.filter(d => d && typeof d === 'object')
+		.map(d => ({ type: String(d.type ?? ''), value: String(d.value ?? ''), debug: d.debug }));
+}
+
+/** 没有 Connect 错误体时按协议规定由 HTTP 状态码推导错误码 */
+export function connectCodeFromHttpStatus(status: number): ConnectErrorCode {
+	switch (status) {
+		case 400: return 'internal';
+		case 401: return 'unauthenticated';
+		case 403: return 'permission_denied';
+		case 404: return 'unimplemented';
+		case 429:
+		case 502:
+		case 503:
+		case 504: return 'unavailable';
+		default: return 'unknown';
+	}
+}
+
+/** 错误对应的服务端请求 ID（请求尚未到达服务端时为 undefined） */
+export function errorRequestId(err: unknown): string | undefined {
+	return err instanceof DeepwikiError || err instanceof DeepwikiTimeoutError ? err.requestId : undefined;
+}
+
+/** 判断错误是否由 AbortSignal 取消引起 */
+export function isAbortError(err: unknown): boolean {
+	return err instanceof Error && err.name === 'AbortError';
+}
+
+// Connect 流式响应中，容量不足通常以 HTTP 200 + end-stream 错误返回
+const CAPACITY_CONNECT_CODES: ReadonlySet<ConnectErrorCode> = new Set<ConnectErrorCode>(['resource_exhausted', 'unavailable']);
+
+/**
+ * 服务端因容量不足拒绝了请求的档位：HTTP 429/503，或没有 HTTP 状态的 resource_exhausted / unavailable
+ * 是否已经输出过内容由调用方判断
+ */
+export function isCapacityRefusal(err: unknown): boolean {
+	if (!(err instanceof DeepwikiError)) {
+		return false;
+	}
+	return err.httpStatus !== undefined
+		? err.httpStatus === 429 || err.httpStatus === 503
+		: CAPACITY_CONNECT_CODES.has(err.code);
+}
+
+// 可以重试的 HTTP 状态码、end-stream 错误码与底层网络错误码
+const TRANSIENT_HTTP_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const TRANSIENT_CONNECT_CODES: ReadonlySet<ConnectErrorCode> = new Set<ConnectErrorCode>(['unavailable', 'deadline_exceeded']);
+const TRANSIENT_NETWORK_CODES = new Set([
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'EPIPE',
+	'EAI_AGAIN',
+	'ENETUNREACH',
+	'EHOSTUNREACH',
+	'UND_ERR_SOCKET',
+	'UND_ERR_CONNECT_TIMEOUT',
+	'UND_ERR_HEADERS_TIMEOUT',
+	'UND_ERR_BODY_TIMEOUT'
+]);
+
+/** 判断错误是否是暂时性的，重试可能成功 */
+export function isTransientError(err: unknown): boolean {
+	if (err instanceof DeepwikiError) {
+		return err.httpStatus !== undefined
+			? TRANSIENT_HTTP_STATUSES.has(err.httpStatus)
+			: TRANSIENT_CONNECT_CODES.has(err.code);
+	}
+	if (err instanceof DeepwikiTimeoutError) {
+		return true;
+	}
+	// Node fetch (undici) 把底层 socket 错误放在 cause 中
+	const code = (err as any)?.code ?? (err as any)?.cause?.code;
+	return typeof code === 'string' && TRANSIENT_NETWORK_CODES.has(code);
+}
+
+export function describeRetryReason(err: unknown): string {
+	if (err instanceof DeepwikiError) {
+		return err.httpStatus !== undefined ? `HTTP ${err.httpStatus}` : err.code;
+	}
+	if (err instanceof DeepwikiTimeoutError) {
+		return err.phase === 'connect' ? '连接超时' : '响应超时';
+	}
+	const code = (err as any)?.code ?? (err as any)?.cause?.code;
+	return typeof code === 'string' ? code : '网络错误';
+}
@@ -0,0 +1,146 @@
+import type { RpcInterceptor } from '@protobuf-ts/runtime-rpc';
+import { GetDeepWikiRequest as PBGetDeepWikiRequest } from '../generated/deepwiki_full';
+import { DeepwikiModelType, MODEL_TYPE_CAPACITY_FALLBACK, MODEL_TYPE_PREMIUM } from '../config/modelTier';
+import { backoffDelay } from '../config/retryPolicy';
+import { getWindsurfCredentials, refreshWindsurfJwt } from '../windsurfAuth';
+import { sleep } from '../utils/asyncUtils';
+import { DeepwikiCallOptions } from './callOptions';
+import { DeepwikiError, describeRetryReason, isAbortError, isCapacityRefusal, isTransientError } from './errors';
+import { createServerStreamingCall, forwardServerStreamingCall } from './streamingCall';
+import { buildRequestMetadata } from './requestMetadata';
+import { isRequestLogEnabled, logDeepwikiRequest } from './requestLog';
+
+/**
+ * GetDeepWiki 调用的拦截器，与传输层无关，替换为内存传输时同样生效
+ * 每个拦截器只在内层调用还没有输出任何消息时重新发起请求，避免重复文本
+ */
+
+/** 暂时性错误（网络中断、超时、5xx 等）按 options.retryPolicy 指数退避重试 */
+export const retryInterceptor: RpcInterceptor = {
+	interceptServerStreaming(next, method, input, options) {
+		const { retryPolicy: policy, onRetry, abort } = options as DeepwikiCallOptions;
+		if (!policy) {
+			return next(method, input, options);
+		}
+		return createServerStreamingCall(method, input, options, async sink => {
+			let attempt = 1;
+			while (true) {
+				let delivered = false;
+				try {
+					return await forwardServerStreamingCall(next(method, input, options), {
+						message: message => {
+							delivered = true;
+							sink.message(message);
+						},
+						headers: sink.headers
+					});
+				} catch (err) {
+					if (abort?.aborted || isAbortError(err) || delivered || attempt >= policy.maxAttempts || !isTransientError(err)) {
+						throw err;
+					}
+					const delayMs = backoffDelay(attempt, policy);
+					attempt++;
+					const reason = describeRetryReason(err);
+					logDeepwikiRequest(`${method.name} failed (${reason}), retrying in ${delayMs}ms (attempt ${attempt}/${policy.maxAttempts})`);
+					onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delayMs, reason });
+					await sleep(delayMs, abort);
+				}
+			}
+		});
+	}
+};
+
+/** Premium 档位容量不足时降级为 capacity fallback，由服务端选择当前可用的档位（不计入重试次数） */
+export const capacityFallbackInterceptor: RpcInterceptor = {
+	interceptServerStreaming(next, method, input, options) {
+		const request = input as unknown as PBGetDeepWikiRequest;
+		if (request.modelType !== MODEL_TYPE_PREMIUM) {
+			return next(method, input, options);
+		}
+		const { onModelDowngrade } = options as DeepwikiCallOptions;
+		return createServerStreamingCall(method, input, options, async sink => {
+			let delivered = false;
+			try {
+				return await forwardServerStreamingCall(next(method, input, options), {
+					message: message => {
+						delivered = true;
+						sink.message(message);
+					},
+					headers: sink.headers
+				});
+			} catch (err) {
+				if (delivered || !isCapacityRefusal(err)) {
+					throw err;
+				}
+				onModelDowngrade?.(request.modelType as number as DeepwikiModelType, MODEL_TYPE_CAPACITY_FALLBACK);
+				const downgraded = { ...request, modelType: MODEL_TYPE_CAPACITY_FALLBACK } as unknown as typeof input;
+				return await forwardServerStreamingCall(next(method, downgraded, options), sink);
+			}
+		});
+	}
+};
+
+/**
+ * 用当前账号的凭据填写请求 Metadata 与服务地址
+ * JWT 被服务端拒绝时刷新一次后重试（不计入重试次数），刷新失败则需要重新登录
+ */
+export const authInterceptor: RpcInterceptor = {
+	interceptServerStreaming(next, method, input, options) {
+		return createServerStreamingCall(method, input, options, async sink => {
+			let jwtRefreshed = false;
+			while (true) {
+				// JWT 即将过期时会先用 API key 刷新
+				const session = await getWindsurfCredentials();
+				options.abort?.throwIfAborted();
+				const request = { ...input, metadata: buildRequestMetadata(session) };
+				let delivered = false;
+				try {
+					return await forwardServerStreamingCall(next(method, request, { ...options, baseUrl: session.baseUrl } as DeepwikiCallOptions), {
+						message: message => {
+							delivered = true;
+							sink.message(message);
+						},
+						headers: sink.headers
+					});
+				} catch (err) {
+					if (jwtRefreshed || delivered || !(err instanceof DeepwikiError && err.code === 'unauthenticated')) {
+						throw err;
+					}
+					jwtRefreshed = true;
+					await refreshWindsurfJwt(session.account);
+				}
+			}
+		});
+	}
+};
+
+/** 开启请求日志时记录每次实际发出的请求与结果，不输出凭据 */
+export const loggingInterceptor: RpcInterceptor = {
+	interceptServerStreaming(next, method, input, options) {
+		if (!isRequestLogEnabled()) {
+			return next(method, input, options);
+		}
+		const request = input as unknown as PBGetDeepWikiRequest;
+		const { baseUrl } = options as DeepwikiCallOptions;
+		const startedAt = Date.now();
+		logDeepwikiRequest(`${method.name} → ${baseUrl ?? '(no baseUrl)'} symbol=${request.symbolName} requestType=${request.requestType} modelType=${request.modelType}`);
+		const call = next(method, input, options);
+		let messages = 0;
+		call.responses.onMessage(() => {
+			messages++;
+		});
+		call.then(
+			() => logDeepwikiRequest(`${method.name} completed in ${Date.now() - startedAt}ms (${messages} messages)`),
+			err => logDeepwikiRequest(`${method.name} failed after ${Date.now() - startedAt}ms: ${err instanceof Error ? err.message : String(err)}`)
+		);
+		return call;
+	}
+};
+
+// 从外到内：重试包住降级与鉴权，日志记录每一次实际请求
+export const DEEPWIKI_INTERCEPTORS: RpcInterceptor[] = [
+	retryInterceptor,
+	capacityFallbackInterceptor,
+	authInterceptor,
+	loggingInterceptor
+];
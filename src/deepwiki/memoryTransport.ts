@@ -0,0 +1,62 @@
+import { RpcError, mergeRpcOptions } from '@protobuf-ts/runtime-rpc';
+import type {
+	ClientStreamingCall,
+	DuplexStreamingCall,
+	MethodInfo,
+	RpcOptions,
+	RpcTransport,
+	ServerStreamingCall,
+	UnaryCall
+} from '@protobuf-ts/runtime-rpc';
+import { createServerStreamingCall } from './streamingCall';
+
+/**
+ * 内存中的 server-streaming 传输层，不发出网络请求，用于测试与离线调试
+ * 拦截器照常生效，只有最终的网络调用被替换
+ */
+
+/** 按请求产生响应序列；抛出的错误作为调用错误返回 */
+export type MemoryStreamHandler = (input: any, options: RpcOptions) => AsyncIterable<object> | Iterable<object>;
+
+export class MemoryTransport implements RpcTransport {
+	// 每次调用的请求，按调用顺序记录
+	readonly requests: { method: string; input: object; options: RpcOptions }[] = [];
+
+	/**
+	 * @param handlers 方法名（如 "GetDeepWiki"）到响应序列的映射
+	 */
+	constructor(
+		private readonly handlers: Record<string, MemoryStreamHandler>,
+		private readonly defaultOptions: RpcOptions = {}
+	) {}
+
+	mergeOptions(options?: Partial<RpcOptions>): RpcOptions {
+		return mergeRpcOptions(this.defaultOptions, options);
+	}
+
+	unary<I extends object, O extends object>(method: MethodInfo<I, O>): UnaryCall<I, O> {
+		throw new RpcError(`MemoryTransport 不支持 unary 调用：${method.name}`, 'UNIMPLEMENTED');
+	}
+
+	clientStreaming<I extends object, O extends object>(method: MethodInfo<I, O>): ClientStreamingCall<I, O> {
+		throw new RpcError(`MemoryTransport 不支持 client streaming 调用：${method.name}`, 'UNIMPLEMENTED');
+	}
+
+	duplex<I extends object, O extends object>(method: MethodInfo<I, O>): DuplexStreamingCall<I, O> {
+		throw new RpcError(`MemoryTransport 不支持 duplex 调用：${method.name}`, 'UNIMPLEMENTED');
+	}
+
+	serverStreaming<I extends object, O extends object>(method: MethodInfo<I, O>, input: I, options: RpcOptions): ServerStreamingCall<I, O> {
+		this.requests.push({ method: method.name, input, options });
+		return createServerStreamingCall(method, input, options, async sink => {
+			const handler = this.handlers[method.name];
+			if (!handler) {
+				throw new RpcError(`MemoryTransport 没有 ${method.name} 的处理函数`, 'UNIMPLEMENTED');
+			}
+			for await (const message of handler(input, options)) {
+				options.abort?.throwIfAborted();
+				sink.message(message as O);
+			}
+		});
+	}
+}
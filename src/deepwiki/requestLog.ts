@@ -0,0 +1,27 @@
+import * as vscode from 'vscode';
+
+/**
+ * DeepWiki 请求日志，写入 “DeepWiki” 输出面板
+ * 日志包含符号名与服务地址，只在开启 network.logRequests 后记录
+ */
+
+let channel: vscode.OutputChannel | undefined;
+
+export function isRequestLogEnabled(): boolean {
+	return vscode.workspace.getConfiguration('context-code-text').get<boolean>('network.logRequests', false);
+}
+
+export function logDeepwikiRequest(line: string): void {
+	if (!isRequestLogEnabled()) {
+		return;
+	}
+	channel ??= vscode.window.createOutputChannel('DeepWiki');
+	channel.appendLine(`[${new Date().toISOString()}] ${line}`);
+}
+
+export const requestLogDisposable: vscode.Disposable = {
+	dispose() {
+		channel?.dispose();
+		channel = undefined;
+	}
+};
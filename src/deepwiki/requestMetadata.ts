@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { getGlobalState } from '../globalState';
+import { Metadata as PBMetadata } from '../generated/deepwiki_full';
+import { WindsurfCredentials } from '../credentialProvider';
+
+/**
+ * GetDeepWiki 请求中的客户端 Metadata，字段取值与 Windsurf 客户端保持一致
+ */
+
+function ensureWorkspaceId(): string {
+	const state = getGlobalState();
+	let id = state.get<string>('workspaceId');
+	if (!id) {
+		const buf = crypto.randomBytes(16);
+		buf[6] = (buf[6] & 0x0f) | 0x40;
+		buf[8] = (buf[8] & 0x3f) | 0x80;
+		const hex = buf.toString('hex');
+		id = `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20)}`;
+		void state.update('workspaceId', id);
+	}
+	return id;
+}
+
+function generateSessionId(): string {
+	const buf = crypto.randomBytes(16);
+	buf[6] = (buf[6] & 0x0f) | 0x40;
+	buf[8] = (buf[8] & 0x3f) | 0x80;
+	// DeepWiki HAR 中的 session_id 是纯 32 位 hex，不带连字符
+	return buf.toString('hex');
+}
+
+function buildOsInfoJson(): string {
+	const release = os.release();
+	const info = {
+		Os: 'windows',
+		Arch: os.arch(),
+		Version: '6.3',
+		ProductName: 'Windows 10 Pro',
+		MajorVersionNumber: 10,
+		MinorVersionNumber: 0,
+		Build: release
+	};
+	return JSON.stringify(info);
+}
+
+function buildHardwareInfoJson(): string {
+	const cpus = os.cpus() ?? [];
+	const model = cpus[0]?.model ?? '';
+	const threads = cpus.length;
+	const cores = Math.max(1, Math.floor(threads / 2));
+	const info = {
+		NumSockets: 1,
+		NumCores: cores,
+		NumThreads: threads,
+		VendorID: 'GenuineIntel',
+		Family: '207',
+		Model: '',
+		ModelName: model,
+		Memory: os.totalmem()
+	};
+	return JSON.stringify(info);
+}
+
+/** 每次请求生成新的 session_id */
+export function buildRequestMetadata(credentials: WindsurfCredentials): PBMetadata {
+	return {
+		ideName: 'windsurf',
+		extensionVersion: '1.48.2',
+		apiKey: credentials.apiKey,
+		locale: vscode.env.language || 'en',
+		osInfoJson: buildOsInfoJson(),
+		ideVersion: '1.12.27',
+		hardwareInfoJson: buildHardwareInfoJson(),
+		workspaceId: ensureWorkspaceId(),
+		extensionName: 'windsurf',
+		authToken: credentials.jwt,
+		sessionId: generateSessionId(),
+		osEdition: 'Pro',
+		machineId: ''
+	};
+}
@@ -0,0 +1,62 @@
+import { Deferred, RpcOutputStreamController, ServerStreamingCall } from '@protobuf-ts/runtime-rpc';
+import type { MethodInfo, RpcMetadata, RpcOptions, RpcStatus } from '@protobuf-ts/runtime-rpc';
+
+/**
+ * 传输层与拦截器共用的 ServerStreamingCall 构造工具
+ */
+
+export interface StreamingCallSink<O> {
+	message(message: O): void;
+	headers(headers: RpcMetadata): void;
+}
+
+/**
+ * 创建由异步函数驱动的 ServerStreamingCall
+ * run 通过 sink 输出消息与响应头，正常返回（可带 trailers）表示调用成功，抛出错误表示调用失败
+ */
+export function createServerStreamingCall<I extends object, O extends object>(
+	method: MethodInfo<I, O>,
+	input: I,
+	options: RpcOptions,
+	run: (sink: StreamingCallSink<O>) => Promise<RpcMetadata | void>
+): ServerStreamingCall<I, O> {
+	const responses = new RpcOutputStreamController<O>();
+	const headers = new Deferred<RpcMetadata>();
+	const status = new Deferred<RpcStatus>();
+	const trailers = new Deferred<RpcMetadata>();
+
+	run({
+		message: message => responses.notifyMessage(message),
+		headers: value => headers.resolvePending(value)
+	}).then(
+		result => {
+			headers.resolvePending({});
+			status.resolve({ code: 'OK', detail: '' });
+			trailers.resolve(result ?? {});
+			responses.notifyComplete();
+		},
+		reason => {
+			const error = reason instanceof Error ? reason : new Error(String(reason));
+			headers.rejectPending(error);
+			status.reject(error);
+			trailers.reject(error);
+			if (!responses.closed) {
+				responses.notifyError(error);
+			}
+		}
+	);
+
+	return new ServerStreamingCall(method, options.meta ?? {}, input, headers.promise, responses, status.promise, trailers.promise);
+}
+
+/** 把内层调用的消息与响应头转发给 sink，返回 trailers；内层调用失败时抛出它的错误 */
+export async function forwardServerStreamingCall<I extends object, O extends object>(
+	call: ServerStreamingCall<I, O>,
+	sink: StreamingCallSink<O>
+): Promise<RpcMetadata> {
+	call.headers.then(value => sink.headers(value), () => undefined);
+	for await (const message of call.responses) {
+		sink.message(message);
+	}
+	return (await call).trailers;
+}
@@ -1,14 +1,30 @@
-import * as vscode from 'vscode';
-import * as os from 'os';
 import * as crypto from 'crypto';
-import * as zlib from 'zlib';
-import { getGlobalState } from './globalState';
-import { BinaryWriter, BinaryReader } from '@protobuf-ts/runtime';
-import { GetDeepWikiRequest as PBGetDeepWikiRequest, GetDeepWikiResponse as PBGetDeepWikiResponse, Metadata as PBMetadata } from './generated/deepwiki_full';
-
-type DeepwikiRequestType = 0 | 1 | 2;
+import { fileURLToPath } from 'url';
+import type { RpcTransport } from '@protobuf-ts/runtime-rpc';
+import {
+	DeepWikiRequestType,
+	DeepWikiSymbolType,
+	GetDeepWikiRequest as PBGetDeepWikiRequest,
+	GetDeepWikiResponse as PBGetDeepWikiResponse,
+	StreamingResponseToolCall as PBStreamingResponseToolCall,
+	StreamingStats as PBStreamingStats
+} from './generated/deepwiki_full';
+import { DeepWikiServiceClient } from './generated/deepwiki_full.client';
+import { DeepwikiModelType } from './config/modelTier';
+import { resolveContextBudget } from './config/contextBudget';
+import { resolveRetryPolicy } from './config/retryPolicy';
+import { resolveRedactionOptions } from './config/redaction';
+import { BudgetedContext, ContextSectionKey, applyContextBudget } from './context/contextBudget';
+import { RedactionReport, redactContextSections } from './context/redaction';
+import { recordRequestOutcome } from './connectionStatus';
+import { DeepwikiCallOptions } from './deepwiki/callOptions';
+import { ConnectTransport, REQUEST_ID_HEADER } from './deepwiki/connectTransport';
+import { DEEPWIKI_INTERCEPTORS } from './deepwiki/interceptors';
+import { DeepwikiError, DeepwikiTimeoutError, isAbortError } from './deepwiki/errors';
+
+// SUMMARY 为快速预览，ARTICLE 为完整文章
+export type DeepwikiRequestKind = 'summary' | 'article';
 type DeepwikiSymbolType = number;
-type DeepwikiModelType = 0 | 1 | 2 | 3 | 4;
 
 export interface DeepwikiContextParams {
 	symbolName: string;
@@ -19,522 +35,371 @@ export interface DeepwikiContextParams {
 	traceContext: string | undefined;
 	quickGrepContext: string | undefined;
 	fullGrepContext: string | undefined;
+	// 文章语言显示名称，例如 "English"、"中文（中国）"
+	language: string;
+	// 请求的模型档位
+	modelType: DeepwikiModelType;
+	// 请求类型，默认完整文章
+	requestType?: DeepwikiRequestKind;
+	// 用户在发送前审阅时补充的说明，放在上下文最前面
+	extraInstructions?: string;
 }
 
-function ensureWorkspaceId(): string {
-	const state = getGlobalState();
-	let id = state.get<string>('workspaceId');
-	if (!id) {
-		const buf = crypto.randomBytes(16);
-		buf[6] = (buf[6] & 0x0f) | 0x40;
-		buf[8] = (buf[8] & 0x3f) | 0x80;
-		const hex = buf.toString('hex');
-		id = `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20)}`;
-		void state.update('workspaceId', id);
-	}
-	return id;
+/** 一次请求的统计信息：服务端 StreamingStats 与客户端计时 */
+export interface DeepwikiRequestStats {
+	requestId?: string;
+	inputTokens?: number;
+	outputTokens?: number;
+	// 服务端报告的总延迟与服务端耗时（排队 + 计算）
+	latencyMs?: number;
+	serverTimeMs?: number;
+	providerId?: number;
+	// StreamingStats 回显的响应头（x-request-id、responseId、trafficType 等）
+	headers?: Record<string, string>;
+	// 客户端计时：从发出请求（含重试）到收到第一段正文、到流结束
+	timeToFirstTokenMs?: number;
+	totalMs?: number;
 }
 
-function generateSessionId(): string {
-	const buf = crypto.randomBytes(16);
-	buf[6] = (buf[6] & 0x0f) | 0x40;
-	buf[8] = (buf[8] & 0x3f) | 0x80;
-	// DeepWiki HAR 中的 session_id 是纯 32 位 hex，不带连字符
-	return buf.toString('hex');
+/** 模型生成文章时调用的工具（例如读取文件、搜索代码） */
+export interface DeepwikiToolCall {
+	callId: string;
+	tool: string;
+	argumentsJson: string;
 }
 
-function buildOsInfoJson(): string {
-	const release = os.release();
-	const info = {
-		Os: 'windows',
-		Arch: os.arch(),
-		Version: '6.3',
-		ProductName: 'Windows 10 Pro',
-		MajorVersionNumber: 10,
-		MinorVersionNumber: 0,
-		Build: release
-	};
-	return JSON.stringify(info);
+export type DeepwikiStreamMessage =
+	| { type: 'article'; text: string }
+	| { type: 'followup'; text: string }
+	// 服务端实际使用的模型档位（GetDeepWikiResponse.model_type）
+	| { type: 'modelType'; modelType: DeepwikiModelType }
+	// 本次请求实际发送的上下文（脱敏、按预算裁剪后），在发出请求前发送一次
+	| { type: 'context'; context: AssembledContext }
+	// 请求的档位因容量不足被拒绝，已降级重试
+	| { type: 'modelDowngrade'; from: DeepwikiModelType; to: DeepwikiModelType }
+	// 上一次尝试因暂时性错误失败，等待 delayMs 后发起第 attempt 次尝试
+	| { type: 'retry'; attempt: number; maxAttempts: number; delayMs: number; reason: string }
+	// 统计信息有更新；流结束时带上 totalMs 再发送一次
+	| { type: 'stats'; stats: DeepwikiRequestStats }
+	// 服务端报告的生成进度，取值 [0, 1]
+	| { type: 'progress'; progress: number }
+	// 新的工具调用，或同一 callId 的参数有更新（toolCall 为合并后的完整内容）
+	| { type: 'toolCall'; toolCall: DeepwikiToolCall }
+	| { type: 'done' };
+
+// proto 中 DeepWikiSymbolType 的最大取值
+const MAX_SYMBOL_TYPE = DeepWikiSymbolType.TYPE_PARAMETER;
+
+let transport: RpcTransport | undefined;
+
+/**
+ * 替换 GetDeepWiki 使用的传输层（例如 MemoryTransport），拦截器保持不变
+ * @param value 传入 undefined 恢复默认的 Connect 传输
+ */
+export function setDeepwikiTransport(value: RpcTransport | undefined): void {
+	transport = value;
 }
 
-function buildHardwareInfoJson(): string {
-	const cpus = os.cpus() ?? [];
-	const model = cpus[0]?.model ?? '';
-	const threads = cpus.length;
-	const cores = Math.max(1, Math.floor(threads / 2));
-	const info = {
-		NumSockets: 1,
-		NumCores: cores,
-		NumThreads: threads,
-		VendorID: 'GenuineIntel',
-		Family: '207',
-		Model: '',
-		ModelName: model,
-		Memory: os.totalmem()
-	};
-	return JSON.stringify(info);
+function getDeepwikiClient(): DeepWikiServiceClient {
+	transport ??= new ConnectTransport();
+	return new DeepWikiServiceClient(transport);
 }
 
-function buildContextText(params: DeepwikiContextParams): string {
-	const sections: string[] = [];
-	if (params.fileContext) {
-		sections.push(params.fileContext);
-	}
-	if (params.usageContext) {
-		sections.push(params.usageContext);
-	}
-	if (params.traceContext) {
-		sections.push(params.traceContext);
-	}
-	if (params.quickGrepContext) {
-		sections.push(params.quickGrepContext);
-	}
-	if (params.fullGrepContext) {
-		sections.push(params.fullGrepContext);
+type DeepwikiContextField = 'fileContext' | 'usageContext' | 'traceContext' | 'quickGrepContext' | 'fullGrepContext';
+
+export type DeepwikiContextSections = Partial<Pick<DeepwikiContextParams, 'symbolUri' | 'extraInstructions' | DeepwikiContextField>>;
+
+// 上下文各部分对应的请求参数字段
+export const CONTEXT_SECTION_FIELDS: Record<ContextSectionKey, DeepwikiContextField> = {
+	file: 'fileContext',
+	usage: 'usageContext',
+	trace: 'traceContext',
+	quickGrep: 'quickGrepContext',
+	fullGrep: 'fullGrepContext'
+};
+
+/** 实际发送的上下文：按预算裁剪后的各部分，以及脱敏替换的统计 */
+export interface AssembledContext extends BudgetedContext {
+	redaction: RedactionReport;
+}
+
+function contextSections(params: DeepwikiContextSections): Partial<Record<ContextSectionKey, string>> {
+	const sections: Partial<Record<ContextSectionKey, string>> = {};
+	for (const [key, field] of Object.entries(CONTEXT_SECTION_FIELDS) as [ContextSectionKey, DeepwikiContextField][]) {
+		sections[key] = params[field];
 	}
-	return sections.join('\n\n');
+	return sections;
 }
 
-function deepwikiSymbolTypeName(value: DeepwikiSymbolType): string {
-	const map: Record<number, string> = {
-		0: 'DEEP_WIKI_SYMBOL_TYPE_UNSPECIFIED',
-		1: 'DEEP_WIKI_SYMBOL_TYPE_FILE',
-		2: 'DEEP_WIKI_SYMBOL_TYPE_MODULE',
-		3: 'DEEP_WIKI_SYMBOL_TYPE_NAMESPACE',
-		4: 'DEEP_WIKI_SYMBOL_TYPE_PACKAGE',
-		5: 'DEEP_WIKI_SYMBOL_TYPE_CLASS',
-		6: 'DEEP_WIKI_SYMBOL_TYPE_METHOD',
-		7: 'DEEP_WIKI_SYMBOL_TYPE_PROPERTY',
-		8: 'DEEP_WIKI_SYMBOL_TYPE_FIELD',
-		9: 'DEEP_WIKI_SYMBOL_TYPE_CONSTRUCTOR',
-		10: 'DEEP_WIKI_SYMBOL_TYPE_ENUM',
-		11: 'DEEP_WIKI_SYMBOL_TYPE_INTERFACE',
-		12: 'DEEP_WIKI_SYMBOL_TYPE_FUNCTION',
-		13: 'DEEP_WIKI_SYMBOL_TYPE_VARIABLE',
-		14: 'DEEP_WIKI_SYMBOL_TYPE_CONSTANT',
-		15: 'DEEP_WIKI_SYMBOL_TYPE_STRING',
-		16: 'DEEP_WIKI_SYMBOL_TYPE_NUMBER',
-		17: 'DEEP_WIKI_SYMBOL_TYPE_BOOLEAN',
-		18: 'DEEP_WIKI_SYMBOL_TYPE_ARRAY',
-		19: 'DEEP_WIKI_SYMBOL_TYPE_OBJECT',
-		20: 'DEEP_WIKI_SYMBOL_TYPE_KEY',
-		21: 'DEEP_WIKI_SYMBOL_TYPE_NULL',
-		22: 'DEEP_WIKI_SYMBOL_TYPE_ENUM_MEMBER',
-		23: 'DEEP_WIKI_SYMBOL_TYPE_STRUCT',
-		24: 'DEEP_WIKI_SYMBOL_TYPE_EVENT',
-		25: 'DEEP_WIKI_SYMBOL_TYPE_OPERATOR',
-		26: 'DEEP_WIKI_SYMBOL_TYPE_TYPE_PARAMETER'
-	};
-	return map[value] ?? 'DEEP_WIKI_SYMBOL_TYPE_UNSPECIFIED';
+// 补充说明放在上下文最前面，与各部分之间的分隔和 applyContextBudget 一致
+const EXTRA_INSTRUCTIONS_HEADER = '=== Extra Instructions ===\n';
+const CONTEXT_SEPARATOR = '\n\n';
+
+/** 补充说明在组装后的上下文中占用的长度（含标题和分隔） */
+function extraInstructionsChars(instructions: string | undefined): number {
+	return instructions ? EXTRA_INSTRUCTIONS_HEADER.length + instructions.length + CONTEXT_SEPARATOR.length : 0;
 }
 
-function deepwikiModelTypeName(value: DeepwikiModelType): string {
-	const map: Record<number, string> = {
-		0: 'DEEP_WIKI_MODEL_TYPE_UNSPECIFIED',
-		1: 'DEEP_WIKI_MODEL_TYPE_CAPACITY_FALLBACK',
-		2: 'DEEP_WIKI_MODEL_TYPE_LITE_FREE',
-		3: 'DEEP_WIKI_MODEL_TYPE_LITE_PAID',
-		4: 'DEEP_WIKI_MODEL_TYPE_PREMIUM'
+/**
+ * 脱敏后按上下文预算组装各部分，返回实际发送的内容与各部分的大小
+ * 补充说明由用户填写，不被裁剪，但占用预算：各部分只分到扣除补充说明后剩余的预算
+ */
+export function assembleContext(params: DeepwikiContextSections): AssembledContext {
+	const redacted = redactContextSections(contextSections(params), resolveRedactionOptions(), symbolPath(params.symbolUri));
+	const budget = resolveContextBudget();
+	const instructions = params.extraInstructions?.trim();
+	const sectionLimit = budget.limitChars > 0
+		? Math.max(1, budget.limitChars - extraInstructionsChars(instructions))
+		: 0;
+	const budgeted = applyContextBudget(redacted.sections, { ...budget, limitChars: sectionLimit });
+	return {
+		...budgeted,
+		limitChars: budget.limitChars,
+		text: instructions ? [`${EXTRA_INSTRUCTIONS_HEADER}${instructions}`, budgeted.text].filter(Boolean).join(CONTEXT_SEPARATOR) : budgeted.text,
+		redaction: redacted.report
 	};
-	return map[value] ?? 'DEEP_WIKI_MODEL_TYPE_UNSPECIFIED';
 }
 
-function deepwikiRequestTypeNumber(name: string): DeepwikiRequestType {
-    const map: Record<string, DeepwikiRequestType> = {
-        'DEEP_WIKI_REQUEST_TYPE_UNSPECIFIED': 0,
-        'DEEP_WIKI_REQUEST_TYPE_SIDEBAR': 1,
-        'DEEP_WIKI_REQUEST_TYPE_ARTICLE': 2
-    };
-    return map[name] ?? 0;
+/**
+ * 审阅确认后的上下文：勾选的部分原样使用审阅时展示的（已脱敏、已裁剪的）内容，不再重新分配预算
+ * 补充说明超出剩余预算时截去结尾，保证再次组装时各部分不会被重新裁剪
+ */
+export function applyReviewedContext(
+	params: DeepwikiContextParams,
+	reviewed: AssembledContext,
+	keys: ContextSectionKey[],
+	extraInstructions: string
+): DeepwikiContextParams {
+	const next: DeepwikiContextParams = { ...params };
+	for (const [key, field] of Object.entries(CONTEXT_SECTION_FIELDS) as [ContextSectionKey, DeepwikiContextField][]) {
+		next[field] = keys.includes(key) ? reviewed.sections.find(s => s.key === key)?.text || undefined : undefined;
+	}
+	let instructions = extraInstructions.trim();
+	if (instructions && reviewed.limitChars > 0) {
+		const sectionsChars = reviewed.sections
+			.filter(s => keys.includes(s.key) && s.text)
+			.reduce((sum, s, i) => sum + s.text.length + (i > 0 ? CONTEXT_SEPARATOR.length : 0), 0);
+		const room = reviewed.limitChars - sectionsChars - EXTRA_INSTRUCTIONS_HEADER.length - CONTEXT_SEPARATOR.length;
+		instructions = room > 0 ? instructions.slice(0, room).trim() : '';
+	}
+	next.extraInstructions = instructions || undefined;
+	return next;
 }
 
-function deepwikiModelTypeNumber(name: string): DeepwikiModelType {
-    const map: Record<string, DeepwikiModelType> = {
-        'DEEP_WIKI_MODEL_TYPE_UNSPECIFIED': 0,
-        'DEEP_WIKI_MODEL_TYPE_CAPACITY_FALLBACK': 1,
-        'DEEP_WIKI_MODEL_TYPE_LITE_FREE': 2,
-        'DEEP_WIKI_MODEL_TYPE_LITE_PAID': 3,
-        'DEEP_WIKI_MODEL_TYPE_PREMIUM': 4
-    };
-    return map[name] ?? 0;
+/**
+ * 只脱敏、不裁剪的各部分上下文，用于写入历史记录等需要落盘的地方
+ * 结果再次组装时不会被重复替换
+ */
+export function redactContextFields(params: DeepwikiContextSections): Pick<DeepwikiContextParams, DeepwikiContextField> {
+	const { sections } = redactContextSections(contextSections(params), resolveRedactionOptions(), symbolPath(params.symbolUri));
+	const fields: Pick<DeepwikiContextParams, DeepwikiContextField> = {
+		fileContext: undefined,
+		usageContext: undefined,
+		traceContext: undefined,
+		quickGrepContext: undefined,
+		fullGrepContext: undefined
+	};
+	for (const [key, field] of Object.entries(CONTEXT_SECTION_FIELDS) as [ContextSectionKey, DeepwikiContextField][]) {
+		fields[field] = sections[key];
+	}
+	return fields;
 }
 
-function deepwikiSymbolTypeNumber(name: string): number {
-    const map: Record<string, number> = {
-        'DEEP_WIKI_SYMBOL_TYPE_UNSPECIFIED': 0,
-        'DEEP_WIKI_SYMBOL_TYPE_FILE': 1,
-        'DEEP_WIKI_SYMBOL_TYPE_MODULE': 2,
-        'DEEP_WIKI_SYMBOL_TYPE_NAMESPACE': 3,
-        'DEEP_WIKI_SYMBOL_TYPE_PACKAGE': 4,
-        'DEEP_WIKI_SYMBOL_TYPE_CLASS': 5,
-        'DEEP_WIKI_SYMBOL_TYPE_METHOD': 6,
-        'DEEP_WIKI_SYMBOL_TYPE_PROPERTY': 7,
-        'DEEP_WIKI_SYMBOL_TYPE_FIELD': 8,
-        'DEEP_WIKI_SYMBOL_TYPE_CONSTRUCTOR': 9,
-        'DEEP_WIKI_SYMBOL_TYPE_ENUM': 10,
-        'DEEP_WIKI_SYMBOL_TYPE_INTERFACE': 11,
-        'DEEP_WIKI_SYMBOL_TYPE_FUNCTION': 12,
-        'DEEP_WIKI_SYMBOL_TYPE_VARIABLE': 13,
-        'DEEP_WIKI_SYMBOL_TYPE_CONSTANT': 14,
-        'DEEP_WIKI_SYMBOL_TYPE_STRING': 15,
-        'DEEP_WIKI_SYMBOL_TYPE_NUMBER': 16,
-        'DEEP_WIKI_SYMBOL_TYPE_BOOLEAN': 17,
-        'DEEP_WIKI_SYMBOL_TYPE_ARRAY': 18,
-        'DEEP_WIKI_SYMBOL_TYPE_OBJECT': 19,
-        'DEEP_WIKI_SYMBOL_TYPE_KEY': 20,
-        'DEEP_WIKI_SYMBOL_TYPE_NULL': 21,
-        'DEEP_WIKI_SYMBOL_TYPE_ENUM_MEMBER': 22,
-        'DEEP_WIKI_SYMBOL_TYPE_STRUCT': 23,
-        'DEEP_WIKI_SYMBOL_TYPE_EVENT': 24,
-        'DEEP_WIKI_SYMBOL_TYPE_OPERATOR': 25,
-        'DEEP_WIKI_SYMBOL_TYPE_TYPE_PARAMETER': 26
-    };
-    return map[name] ?? 0;
+function symbolPath(symbolUri: string | undefined): string | undefined {
+	if (!symbolUri?.startsWith('file:')) {
+		return undefined;
+	}
+	try {
+		return fileURLToPath(symbolUri);
+	} catch {
+		return undefined;
+	}
 }
 
-function buildMetadataFromJson(meta: any): PBMetadata {
-    return {
-        ideName: String(meta?.ide_name ?? ''),
-        extensionVersion: String(meta?.extension_version ?? ''),
-        apiKey: String(meta?.api_key ?? ''),
-        locale: String(meta?.locale ?? ''),
-        osInfoJson: String(meta?.os_info_json ?? ''),
-        ideVersion: String(meta?.ide_version ?? ''),
-        hardwareInfoJson: String(meta?.hardware_info_json ?? ''),
-        workspaceId: String(meta?.workspace_id ?? ''),
-        extensionName: String(meta?.extension_name ?? ''),
-        authToken: String(meta?.auth_token ?? ''),
-        sessionId: String(meta?.session_id ?? ''),
-        osEdition: String(meta?.os_edition ?? ''),
-        machineId: ''
-    };
+function buildContextText(params: DeepwikiContextParams): string {
+	return assembleContext(params).text;
 }
 
-function buildDeepwikiRequestBytesFromJson(jsonObj: any): Uint8Array {
-    const message: PBGetDeepWikiRequest = {
-        metadata: buildMetadataFromJson(jsonObj?.metadata ?? {}),
-        requestType: deepwikiRequestTypeNumber(String(jsonObj?.request_type ?? 'DEEP_WIKI_REQUEST_TYPE_UNSPECIFIED')) as any,
-        symbolName: String(jsonObj?.symbol_name ?? ''),
-        symbolUri: String(jsonObj?.symbol_uri ?? ''),
-        context: String(jsonObj?.context ?? ''),
-        symbolType: deepwikiSymbolTypeNumber(String(jsonObj?.symbol_type ?? 'DEEP_WIKI_SYMBOL_TYPE_UNSPECIFIED')) as any,
-        language: String(jsonObj?.language ?? ''),
-        modelType: deepwikiModelTypeNumber(String(jsonObj?.model_type ?? 'DEEP_WIKI_MODEL_TYPE_UNSPECIFIED')) as any
-    };
-    const writer = new BinaryWriter();
-    PBGetDeepWikiRequest.internalBinaryWrite(message, writer, {
-        writeUnknownFields: false,
-        writerFactory: () => new BinaryWriter()
-    } as any);
-    return writer.finish();
+/** 组装后上下文的指纹，用于文章缓存的键 */
+export function contextFingerprint(params: DeepwikiContextParams): string {
+	return crypto.createHash('sha256').update(buildContextText(params)).digest('hex');
 }
 
-function parseDeepwikiResponses(data: Uint8Array): string {
-	const articleParts: string[] = [];
-	const followupParts: string[] = [];
-	let isArticleDoneSeen = false;
-	let offset = 0;
-	while (offset + 5 <= data.length) {
-		const flags = data[offset];
-		offset += 1;
-		const len =
-			(data[offset] << 24) |
-			(data[offset + 1] << 16) |
-			(data[offset + 2] << 8) |
-			data[offset + 3];
-		offset += 4;
-		if (len < 0 || offset + len > data.length) {
-			break;
-		}
-		const frame = data.slice(offset, offset + len);
-		offset += len;
-		const compressed = (flags & 0x01) !== 0;
-		let uncompressedBuf: Buffer;
-		if (compressed) {
-			try {
-				uncompressedBuf = zlib.gunzipSync(Buffer.from(frame));
-			} catch {
-				uncompressedBuf = Buffer.from(frame);
-			}
-		} else {
-			uncompressedBuf = Buffer.from(frame);
-		}
+/** 构造 GetDeepWiki 请求；metadata（凭据、会话信息）由 auth 拦截器填写 */
+function buildGetDeepWikiRequest(params: DeepwikiContextParams, context: AssembledContext): PBGetDeepWikiRequest {
+	const symbolType = Number.isInteger(params.symbolType) && params.symbolType >= 0 && params.symbolType <= MAX_SYMBOL_TYPE
+		? params.symbolType as DeepWikiSymbolType
+		: DeepWikiSymbolType.UNSPECIFIED;
+	return PBGetDeepWikiRequest.create({
+		requestType: params.requestType === 'summary' ? DeepWikiRequestType.SUMMARY : DeepWikiRequestType.ARTICLE,
+		symbolName: params.symbolName,
+		symbolUri: params.symbolUri,
+		context: context.text,
+		symbolType,
+		language: params.language,
+		modelType: params.modelType
+	});
+}
 
-		// 尝试识别 JSON 错误帧（Connect end_stream error）
-		const trimmed = uncompressedBuf.toString('utf8').trimStart();
-		if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
-			continue;
+/**
+ * 流式请求 DeepWiki 文章
+ * 暂时性错误（网络中断、超时、5xx 等）按重试策略指数退避重试；已经输出内容后不再重试，避免重复文本
+ */
+export async function streamDeepwikiArticle(
+	params: DeepwikiContextParams,
+	onMessage: (m: DeepwikiStreamMessage) => void,
+	signal?: AbortSignal
+): Promise<void> {
+	try {
+		await streamResponses(params, onMessage, signal);
+		recordRequestOutcome(true);
+	} catch (err) {
+		// 用户主动取消不算请求失败
+		if (!signal?.aborted && !isAbortError(err)) {
+			recordRequestOutcome(false, err instanceof Error ? err.message : String(err));
 		}
+		throw err;
+	}
+}
 
-		// 非 JSON：使用生成的 protobuf 解码 text_delta
-		try {
-			const reader = new BinaryReader(uncompressedBuf);
-			const msg = PBGetDeepWikiResponse.internalBinaryRead(reader, uncompressedBuf.length, {
-				readUnknownField: false,
-				readerFactory: (bytes: Uint8Array) => new BinaryReader(bytes)
-			} as any);
+async function streamResponses(
+	params: DeepwikiContextParams,
+	onMessage: (m: DeepwikiStreamMessage) => void,
+	signal?: AbortSignal
+): Promise<void> {
+	const policy = resolveRetryPolicy();
+	const options: DeepwikiCallOptions = {
+		abort: signal,
+		interceptors: DEEPWIKI_INTERCEPTORS,
+		retryPolicy: policy,
+		connectTimeoutMs: policy.connectTimeoutMs,
+		idleTimeoutMs: policy.idleTimeoutMs,
+		onRetry: info => onMessage({ type: 'retry', ...info }),
+		onModelDowngrade: (from, to) => onMessage({ type: 'modelDowngrade', from, to })
+	};
+	const context = assembleContext(params);
+	onMessage({ type: 'context', context });
+	const call = getDeepwikiClient().getDeepWiki(buildGetDeepWikiRequest(params, context), options);
+
+	const startedAt = Date.now();
+	const stats: DeepwikiRequestStats = {};
+	const emitStats = () => onMessage({ type: 'stats', stats: { ...stats, headers: stats.headers && { ...stats.headers } } });
+	// 响应体中没有 request_id 时退回到响应头
+	call.headers.then(headers => {
+		const value = headers[REQUEST_ID_HEADER];
+		if (!stats.requestId && typeof value === 'string' && value) {
+			stats.requestId = value;
+		}
+	}, () => undefined);
+
+	let servedModelType: DeepwikiModelType | undefined;
+	let progress = 0;
+	const toolCalls = new Map<string, DeepwikiToolCall>();
+	// 没有 callId 的工具调用数，用于生成不与服务端 callId 冲突的标识
+	let unnamedToolCalls = 0;
+	try {
+		for await (const msg of call.responses) {
 			const text = msg.response?.textDelta ?? '';
-			const convId = msg.response?.conversationId ?? '';
-			const isFollowup = /-followup$/i.test(convId);
-			const followupQuestions = (msg as any).followupQuestions as string | undefined;
-			if (typeof msg.isArticleDone === 'boolean' && msg.isArticleDone) {
-				isArticleDoneSeen = true;
+			const isFollowup = /-followup$/i.test(msg.response?.conversationId ?? '');
+			if (msg.modelType && msg.modelType !== servedModelType) {
+				servedModelType = msg.modelType as number as DeepwikiModelType;
+				onMessage({ type: 'modelType', modelType: servedModelType });
+			}
+			if (mergeStats(stats, msg)) {
+				emitStats();
+			}
+			const frameProgress = Math.min(1, Math.max(0, msg.response?.progress ?? 0));
+			if (frameProgress > 0 && frameProgress !== progress) {
+				progress = frameProgress;
+				onMessage({ type: 'progress', progress });
+			}
+			for (const frameCall of msg.response?.toolCalls ?? []) {
+				// 没有 callId 的帧无法与其他帧对应，每帧作为一个新的调用
+				const toolCall = frameCall.callId
+					? mergeToolCall(toolCalls, frameCall)
+					: { callId: `unnamed-${++unnamedToolCalls}`, tool: frameCall.tool, argumentsJson: frameCall.argumentsJson };
+				if (toolCall) {
+					onMessage({ type: 'toolCall', toolCall });
+				}
+			}
+			if (msg.isArticleDone) {
+				onMessage({ type: 'done' });
 			}
 			if (text) {
-				if (isFollowup) {
-					followupParts.push(text);
-				} else {
-					articleParts.push(text);
+				if (!isFollowup && stats.timeToFirstTokenMs === undefined) {
+					stats.timeToFirstTokenMs = Date.now() - startedAt;
+					emitStats();
 				}
+				onMessage({ type: isFollowup ? 'followup' : 'article', text });
 			}
-			if (followupQuestions && followupQuestions.trim()) {
-				followupParts.push(followupQuestions);
+			if (msg.followupQuestions.trim()) {
+				onMessage({ type: 'followup', text: msg.followupQuestions });
 			}
-		} catch {
-			// ignore undecodable frames
 		}
+		await call;
+	} catch (err) {
+		if ((err instanceof DeepwikiError || err instanceof DeepwikiTimeoutError) && !err.requestId) {
+			err.requestId = stats.requestId;
+		}
+		throw err;
+	} finally {
+		stats.totalMs = Date.now() - startedAt;
+		emitStats();
 	}
-	const article = articleParts.join('');
-	const followupsRaw = followupParts.join('');
-	const items = followupsRaw.split(/\r?\n/).map(s => s.trim()).filter(s => s.length > 0);
-	const seen = new Set<string>();
-	const unique: string[] = [];
-	for (const it of items) { if (!seen.has(it)) { seen.add(it); unique.push(it); } }
-	if (unique.length === 0) {
-		return article;
-	}
-	const section = ['','---','','后续提问', ...unique.map(q => `- ${q}`)].join('\n');
-	return article + '\n' + section;
 }
 
-// 已移除手写的 wire 扫描解析，全部改用生成的解码器
-
-export async function fetchDeepwikiArticle(params: DeepwikiContextParams): Promise<string> {
-	const config = vscode.workspace.getConfiguration('context-code-text');
-	const apiKey = config.get<string>('windsurfApiKey') ?? '';
-	const authToken = config.get<string>('windsurfJwt') ?? '';
-	if (!apiKey || !authToken) {
-		throw new Error('缺少 Windsurf 登录信息，请先运行 "Context Code Text: Windsurf Login"。');
-	}
-
-	const sessionId = generateSessionId();
-
-	// 结构化 JSON 视图，方便和 HAR/deepwiki.json 对比
-	const modelType: DeepwikiModelType = 1;
-	const requestJson = {
-		metadata: {
-			ide_name: 'windsurf',
-			extension_version: '1.48.2',
-			api_key: apiKey,
-			locale: vscode.env.language || 'en',
-			os_info_json: buildOsInfoJson(),
-			ide_version: '1.12.27',
-			hardware_info_json: buildHardwareInfoJson(),
-			workspace_id: ensureWorkspaceId(),
-			extension_name: 'windsurf',
-			auth_token: authToken,
-			session_id: sessionId,
-			os_edition: 'Pro'
-		},
-		request_type: 'DEEP_WIKI_REQUEST_TYPE_ARTICLE',
-		symbol_name: params.symbolName,
-		symbol_uri: params.symbolUri,
-		context: buildContextText(params),
-		symbol_type: deepwikiSymbolTypeName(params.symbolType),
-		language: '中文（中国）',
-		model_type: deepwikiModelTypeName(modelType)
-	};
-
-	// Build request bytes from the JSON to mirror Python (JSON -> proto bytes)
-	const requestBytes = buildDeepwikiRequestBytesFromJson(requestJson);
-	const gzipped = zlib.gzipSync(requestBytes);
-
-	const frame = Buffer.alloc(1 + 4 + gzipped.length);
-	frame.writeUInt8(0x01, 0);
-	frame.writeUInt32BE(gzipped.length, 1);
-	gzipped.copy(frame, 5);
-
-	const response = await fetch('https://server.self-serve.windsurf.com/exa.api_server_pb.ApiServerService/GetDeepWiki', {
-		method: 'POST',
-		headers: {
-			'User-Agent': 'connect-go/1.18.1 (go1.24.6 X:nocoverageredesign,synctest)',
-			'content-type': 'application/connect+proto',
-			'connect-protocol-version': '1',
-			'Accept-Encoding': 'identity',
-			'connect-content-encoding': 'gzip',
-			'connect-accept-encoding': 'gzip',
-			'Accept': '*/*'
-		} as Record<string, string>,
-		body: frame
-	});
-
-	if (!response.ok) {
-		throw new Error(`DeepWiki 请求失败: ${response.status} ${response.statusText}`);
+/**
+ * 合并同一 callId 的工具调用帧：参数可能分多帧流式下发（增量），也可能每帧都是完整快照
+ * 返回合并后的调用；没有变化时返回 undefined
+ */
+function mergeToolCall(toolCalls: Map<string, DeepwikiToolCall>, frame: PBStreamingResponseToolCall): DeepwikiToolCall | undefined {
+	const existing = toolCalls.get(frame.callId);
+	if (!existing) {
+		const created = { callId: frame.callId, tool: frame.tool, argumentsJson: frame.argumentsJson };
+		toolCalls.set(frame.callId, created);
+		return { ...created };
 	}
-
-	const arrayBuffer = await response.arrayBuffer();
-	const bytes = new Uint8Array(arrayBuffer);
-	const text = parseDeepwikiResponses(bytes);
-	if (!text) {
-		throw new Error('DeepWiki 返回为空，未解析到任何内容。');
+	const argumentsJson = frame.argumentsJson.startsWith(existing.argumentsJson)
+		? frame.argumentsJson
+		: existing.argumentsJson + frame.argumentsJson;
+	const tool = frame.tool || existing.tool;
+	if (argumentsJson === existing.argumentsJson && tool === existing.tool) {
+		return undefined;
 	}
-	return text;
+	existing.argumentsJson = argumentsJson;
+	existing.tool = tool;
+	return { ...existing };
 }
 
-export type DeepwikiStreamMessage =
-    | { type: 'article'; text: string }
-    | { type: 'followup'; text: string }
-    | { type: 'done' };
-
-async function buildDeepwikiRequestFrame(params: DeepwikiContextParams): Promise<Buffer> {
-    const config = vscode.workspace.getConfiguration('context-code-text');
-    const apiKey = config.get<string>('windsurfApiKey') ?? '';
-    const authToken = config.get<string>('windsurfJwt') ?? '';
-    if (!apiKey || !authToken) {
-        throw new Error('缺少 Windsurf 登录信息，请先运行 "Context Code Text: Windsurf Login"。');
-    }
-
-    const sessionId = generateSessionId();
-
-    const modelType: DeepwikiModelType = 1;
-    const requestJson = {
-        metadata: {
-            ide_name: 'windsurf',
-            extension_version: '1.48.2',
-            api_key: apiKey,
-            locale: vscode.env.language || 'en',
-            os_info_json: buildOsInfoJson(),
-            ide_version: '1.12.27',
-            hardware_info_json: buildHardwareInfoJson(),
-            workspace_id: ensureWorkspaceId(),
-            extension_name: 'windsurf',
-            auth_token: authToken,
-            session_id: sessionId,
-            os_edition: 'Pro'
-        },
-        request_type: 'DEEP_WIKI_REQUEST_TYPE_ARTICLE',
-        symbol_name: params.symbolName,
-        symbol_uri: params.symbolUri,
-        context: buildContextText(params),
-        symbol_type: deepwikiSymbolTypeName(params.symbolType),
-        language: '中文（中国）',
-        model_type: deepwikiModelTypeName(modelType)
-    };
-
-    const requestBytes = buildDeepwikiRequestBytesFromJson(requestJson);
-    const gzipped = zlib.gzipSync(requestBytes);
+const NUMERIC_STATS_FIELDS = ['inputTokens', 'outputTokens', 'latencyMs', 'serverTimeMs', 'providerId'] as const satisfies readonly (keyof PBStreamingStats)[];
 
-    const frame = Buffer.alloc(1 + 4 + gzipped.length);
-    frame.writeUInt8(0x01, 0);
-    frame.writeUInt32BE(gzipped.length, 1);
-    gzipped.copy(frame, 5);
-    return frame;
-}
-
-async function connectAndFetch(params: DeepwikiContextParams) {
-    const frame = await buildDeepwikiRequestFrame(params);
-    const response = await fetch('https://server.self-serve.windsurf.com/exa.api_server_pb.ApiServerService/GetDeepWiki', {
-        method: 'POST',
-        headers: {
-            'User-Agent': 'connect-go/1.18.1 (go1.24.6 X:nocoverageredesign,synctest)',
-            'content-type': 'application/connect+proto',
-            'connect-protocol-version': '1',
-            'Accept-Encoding': 'identity',
-            'connect-content-encoding': 'gzip',
-            'connect-accept-encoding': 'gzip',
-            'Accept': '*/*'
-        } as Record<string, string>,
-        body: frame
-    });
-    if (!response.ok) {
-        throw new Error(`DeepWiki 请求失败: ${response.status} ${response.statusText}`);
-    }
-    return response as any;
-}
-
-export async function streamDeepwikiArticle(
-    params: DeepwikiContextParams,
-    onMessage: (m: DeepwikiStreamMessage) => void
-): Promise<void> {
-    const response = await connectAndFetch(params);
-
-    const decodeFrame = (flags: number, payload: Uint8Array) => {
-        const compressed = (flags & 0x01) !== 0;
-        let uncompressed: Buffer;
-        if (compressed) {
-            try {
-                uncompressed = zlib.gunzipSync(Buffer.from(payload));
-            } catch {
-                uncompressed = Buffer.from(payload);
-            }
-        } else {
-            uncompressed = Buffer.from(payload);
-        }
-
-        const trimmed = uncompressed.toString('utf8').trimStart();
-        if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
-            return;
-        }
-
-        try {
-            const reader = new BinaryReader(uncompressed);
-            const msg = PBGetDeepWikiResponse.internalBinaryRead(reader, uncompressed.length, {
-                readUnknownField: false,
-                readerFactory: (bytes: Uint8Array) => new BinaryReader(bytes)
-            } as any);
-            const text = msg.response?.textDelta ?? '';
-            const convId = msg.response?.conversationId ?? '';
-            const isFollowup = /-followup$/i.test(convId);
-            const followupQuestions = (msg as any).followupQuestions as string | undefined;
-            if (typeof msg.isArticleDone === 'boolean' && msg.isArticleDone) {
-                onMessage({ type: 'done' });
-            }
-            if (text) {
-                onMessage({ type: isFollowup ? 'followup' : 'article', text });
-            }
-            if (followupQuestions && followupQuestions.trim()) {
-                onMessage({ type: 'followup', text: followupQuestions });
-            }
-        } catch {
-            // ignore undecodable frames
-        }
-    };
-
-    const reader: any = response.body?.getReader ? response.body.getReader() : null;
-    let buffer = Buffer.alloc(0);
-    const processBuffer = () => {
-        while (buffer.length >= 5) {
-            const flags = buffer[0];
-            const len = buffer.readUInt32BE(1);
-            if (len < 0 || buffer.length < 5 + len) {break;}
-            const payload = buffer.subarray(5, 5 + len);
-            buffer = buffer.subarray(5 + len);
-            decodeFrame(flags, payload);
-        }
-    };
-
-    if (reader && typeof reader.read === 'function') {
-        while (true) {
-            const { value, done } = await reader.read();
-            if (done) {break;}
-            const chunk = Buffer.from(value);
-            buffer = Buffer.concat([buffer, chunk]);
-            processBuffer();
-        }
-        processBuffer();
-        return;
-    }
-
-    const nodeStream: any = response.body;
-    if (!nodeStream || typeof nodeStream[Symbol.asyncIterator] !== 'function') {
-        const arrayBuffer = await response.arrayBuffer();
-        buffer = Buffer.from(new Uint8Array(arrayBuffer));
-        processBuffer();
-        return;
-    }
-    for await (const chunk of nodeStream as AsyncIterable<Buffer>) {
-        buffer = Buffer.concat([buffer, Buffer.from(chunk)]);
-        processBuffer();
-    }
-    processBuffer();
+/** 把一帧中的 request_id 与 StreamingStats 合并到统计信息，返回是否有变化 */
+function mergeStats(stats: DeepwikiRequestStats, msg: PBGetDeepWikiResponse): boolean {
+	let changed = false;
+	if (msg.requestId && msg.requestId !== stats.requestId) {
+		stats.requestId = msg.requestId;
+		changed = true;
+	}
+	const frame = msg.response?.stats;
+	if (!frame) {
+		return changed;
+	}
+	// 各帧只携带部分字段，0 表示未提供
+	for (const key of NUMERIC_STATS_FIELDS) {
+		if (frame[key] && frame[key] !== stats[key]) {
+			stats[key] = frame[key];
+			changed = true;
+		}
+	}
+	for (const header of frame.headers) {
+		if (header.name && stats.headers?.[header.name] !== header.value) {
+			stats.headers = { ...stats.headers, [header.name]: header.value };
+			changed = true;
+		}
+	}
+	if (!stats.requestId && stats.headers?.[REQUEST_ID_HEADER]) {
+		stats.requestId = stats.headers[REQUEST_ID_HEADER];
+		changed = true;
+	}
+	return changed;
 }
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JsonObject, JsonValue } from '@protobuf-ts/runtime';
+import { GetDeepWikiResponse as PBGetDeepWikiResponse } from '../generated/deepwiki_full';
+import { encodeEnvelope } from '../deepwiki/connectTransport';
+
+/**
+ * GetDeepWiki 录制文件（fixture）的格式与读写
+ * 帧以 proto JSON 保存，便于阅读和手工编辑；回放时重新编码为 protobuf
+ */
+
+export type FixtureFrame =
+	// 一条 GetDeepWikiResponse（proto JSON）
+	| { kind: 'message'; message: JsonValue }
+	// end-stream 帧的 JSON（{ error?, metadata? }）
+	| { kind: 'endStream'; body: JsonObject };
+
+export interface DeepwikiFixture {
+	version: 1;
+	description?: string;
+	recordedAt?: string;
+	// 录制时的请求摘要（不含 metadata）
+	request?: JsonObject;
+	// HTTP 状态码；非 2xx 时 errorBody 为响应体，frames 为空
+	status: number;
+	errorBody?: string;
+	headers?: Record<string, string>;
+	frames: FixtureFrame[];
+	// mock 服务：非 premium 档位的请求（例如降级后的重试）改为回放该 fixture
+	fallbackFixture?: string;
+}
+
+export interface FixtureEncodeOptions {
+	// 数据帧是否 gzip 压缩，默认 true
+	compress?: boolean;
+}
+
+/** 把 fixture 的帧编码为完整的 Connect 响应体 */
+export function encodeFixtureBody(fixture: DeepwikiFixture, options: FixtureEncodeOptions = {}): Buffer {
+	const compress = options.compress ?? true;
+	const parts = fixture.frames.map(frame => frame.kind === 'message'
+		? encodeEnvelope(PBGetDeepWikiResponse.toBinary(PBGetDeepWikiResponse.fromJson(frame.message)), { compress })
+		: encodeEnvelope(Buffer.from(JSON.stringify(frame.body), 'utf8'), { compress: false, endStream: true }));
+	return Buffer.concat(parts);
+}
+
+/**
+ * 把响应体切成若干块，模拟网络分包；切分点可以落在帧头或 payload 中间
+ * @param chunkSize 固定块大小；'random' 时按 seed 生成 1..64 字节的随机块
+ */
+export function splitIntoChunks(body: Buffer, chunkSize: number | 'random', seed = 1): Buffer[] {
+	const chunks: Buffer[] = [];
+	// 线性同余随机数，保证同一 seed 的切分可以复现
+	let state = seed >>> 0;
+	const nextSize = () => {
+		if (chunkSize !== 'random') {
+			return Math.max(1, chunkSize);
+		}
+		state = (state * 1664525 + 1013904223) >>> 0;
+		return 1 + (state % 64);
+	};
+	for (let offset = 0; offset < body.length;) {
+		const size = nextSize();
+		chunks.push(body.subarray(offset, offset + size));
+		offset += size;
+	}
+	return chunks;
+}
+
+export function readFixture(file: string): DeepwikiFixture {
+	return JSON.parse(fs.readFileSync(file, 'utf8')) as DeepwikiFixture;
+}
+
+export async function writeFixture(dir: string, name: string, fixture: DeepwikiFixture): Promise<string> {
+	await fs.promises.mkdir(dir, { recursive: true });
+	const file = path.join(dir, `${name}.json`);
+	await fs.promises.writeFile(file, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+	return file;
+}
+
+// 可能包含凭据的响应头
+const SECRET_HEADER_PATTERN = /authorization|cookie|api[-_]?key|token|secret/i;
+// JWT、Bearer token 等常见的凭据格式
+const SECRET_VALUE_PATTERNS = [
+	/eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+	/Bearer\s+[A-Za-z0-9._~+/-]+=*/g
+];
+
+export const SCRUBBED = '<scrubbed>';
+
+/**
+ * 递归替换 JSON 中的凭据：已知的凭据原文、JWT/Bearer 格式的字符串，以及敏感字段名对应的值
+ * @param secrets 录制时使用的 API key、JWT 等原文
+ */
+export function scrubSecrets<T extends JsonValue>(value: T, secrets: string[]): T {
+	const literals = secrets.filter(s => s.length >= 8);
+	const scrubString = (text: string): string => {
+		let result = text;
+		for (const secret of literals) {
+			result = result.split(secret).join(SCRUBBED);
+		}
+		for (const pattern of SECRET_VALUE_PATTERNS) {
+			result = result.replace(pattern, SCRUBBED);
+		}
+		return result;
+	};
+	const visit = (node: JsonValue, key?: string): JsonValue => {
+		if (typeof node === 'string') {
+			return key && SECRET_HEADER_PATTERN.test(key) && node ? SCRUBBED : scrubString(node);
+		}
+		if (Array.isArray(node)) {
+			return node.map(item => visit(item));
+		}
+		if (node && typeof node === 'object') {
+			// StreamingHeader 形如 { name, value }，按 name 判断是否敏感
+			const headerName = typeof node.name === 'string' ? node.name : undefined;
+			const out: JsonObject = {};
+			for (const [k, v] of Object.entries(node)) {
+				out[k] = k === 'value' && headerName && SECRET_HEADER_PATTERN.test(headerName) ? SCRUBBED : visit(v as JsonValue, k);
+			}
+			return out;
+		}
+		return node;
+	};
+	return visit(value) as T;
+}
+
+/** 响应头转换为普通对象并去掉凭据 */
+export function scrubHeaders(headers: Headers, secrets: string[]): Record<string, string> {
+	const out: Record<string, string> = {};
+	headers.forEach((value, key) => {
+		out[key] = SECRET_HEADER_PATTERN.test(key) ? SCRUBBED : value;
+	});
+	return scrubSecrets(out, secrets);
+}
@@ -0,0 +1,227 @@
+import * as http from 'http';
+import * as path from 'path';
+import { BinaryWriter } from '@protobuf-ts/runtime';
+import { DeepWikiModelType, GetDeepWikiRequest as PBGetDeepWikiRequest } from '../generated/deepwiki_full';
+import { EnvelopeDecoder } from '../deepwiki/connectTransport';
+import { DeepwikiFixture, encodeFixtureBody, readFixture, splitIntoChunks } from './fixtures';
+import { createRecordingFetch } from './recordingFetch';
+
+/**
+ * 本地 Connect 协议 mock 服务：回放 fixture 中录制的 GetDeepWiki 帧序列，
+ * 并提供 RegisterUser / GetUserJwt 的固定响应，用于离线开发和复现流式问题
+ *
+ * 用法：pnpm run mock-server -- [--port 8787] [--fixtures dir] [--fixture name]
+ *                                 [--plain] [--chunk N|random] [--delay ms]
+ *       pnpm run mock-server -- --record dir --upstream https://server.example
+ * 然后把设置 context-code-text.apiBaseUrl 指向 http://127.0.0.1:<port>
+ *
+ * 录制模式不回放 fixture：所有请求转发到 upstream，GetDeepWiki 的真实响应流同时写入 dir
+ */
+
+interface MockServerOptions {
+	port: number;
+	fixturesDir: string;
+	// 未按请求匹配到 fixture 时使用的默认 fixture
+	fixture: string;
+	// 不压缩数据帧
+	plain: boolean;
+	chunk: number | 'random';
+	// 每块之间的间隔（毫秒）
+	delayMs: number;
+	// 录制模式：fixture 写入的目录与转发的目标地址
+	recordDir?: string;
+	upstream?: string;
+}
+
+const GET_DEEPWIKI_PATH = '/exa.api_server_pb.ApiServerService/GetDeepWiki';
+const REGISTER_USER_PATH = '/exa.seat_management_pb.SeatManagementService/RegisterUser';
+const GET_USER_JWT_PATH = '/exa.auth_pb.AuthService/GetUserJwt';
+
+// 请求头可以指定本次回放的 fixture
+const FIXTURE_HEADER = 'x-mock-fixture';
+
+function parseArgs(argv: string[]): MockServerOptions {
+	const options: MockServerOptions = {
+		port: 8787,
+		fixturesDir: path.resolve('src/devtools/fixtures'),
+		fixture: 'basic',
+		plain: false,
+		chunk: 'random',
+		delayMs: 20
+	};
+	for (let i = 0; i < argv.length; i++) {
+		const value = argv[i + 1];
+		switch (argv[i]) {
+			case '--port': options.port = Number(value); i++; break;
+			case '--fixtures': options.fixturesDir = path.resolve(value); i++; break;
+			case '--fixture': options.fixture = value; i++; break;
+			case '--plain': options.plain = true; break;
+			case '--chunk': options.chunk = value === 'random' ? 'random' : Number(value); i++; break;
+			case '--delay': options.delayMs = Number(value); i++; break;
+			case '--record': options.recordDir = path.resolve(value); i++; break;
+			case '--upstream': options.upstream = value; i++; break;
+		}
+	}
+	return options;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		req.on('data', (chunk: Buffer) => chunks.push(chunk));
+		req.on('end', () => resolve(Buffer.concat(chunks)));
+		req.on('error', reject);
+	});
+}
+
+function protoStringFields(fields: Record<number, string>): Uint8Array {
+	const writer = new BinaryWriter();
+	for (const [no, value] of Object.entries(fields)) {
+		writer.tag(Number(no), 2).string(value);
+	}
+	return writer.finish();
+}
+
+// 不签名的 JWT：扩展只解析 payload 中的 exp
+function unsignedJwt(): string {
+	const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+	const exp = Math.floor(Date.now() / 1000) + 3600;
+	return `${encode({ alg: 'none', typ: 'JWT' })}.${encode({ sub: 'mock-user', exp })}.`;
+}
+
+/** 依次尝试请求头、符号名、默认 fixture */
+function loadFixture(options: MockServerOptions, candidates: (string | undefined)[]): DeepwikiFixture | undefined {
+	for (const name of [...candidates, options.fixture]) {
+		if (!name || /[\\/]/.test(name)) {
+			continue;
+		}
+		try {
+			return readFixture(path.join(options.fixturesDir, `${name}.json`));
+		} catch {
+			// 继续尝试下一个
+		}
+	}
+	return undefined;
+}
+
+async function replayDeepwiki(options: MockServerOptions, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+	const frame = new EnvelopeDecoder().push(await readBody(req))[0];
+	const request = frame ? PBGetDeepWikiRequest.fromBinary(frame.payload) : undefined;
+	const header = req.headers[FIXTURE_HEADER];
+	let fixture = loadFixture(options, [typeof header === 'string' ? header : undefined, request?.symbolName]);
+	// 只拒绝 premium 档位的 fixture：降级后的请求回放 fallbackFixture
+	if (fixture?.fallbackFixture && request?.modelType !== DeepWikiModelType.PREMIUM) {
+		fixture = loadFixture(options, [fixture.fallbackFixture]);
+	}
+	if (!fixture) {
+		res.writeHead(404, { 'content-type': 'application/json' });
+		res.end(JSON.stringify({ code: 'not_found', message: `fixture not found in ${options.fixturesDir}` }));
+		return;
+	}
+	console.log(`[mock-server] GetDeepWiki ${request?.symbolName ?? '?'} -> ${fixture.description ?? 'fixture'} (${fixture.frames.length} frames)`);
+
+	if (fixture.status < 200 || fixture.status >= 300) {
+		res.writeHead(fixture.status, { 'content-type': 'application/json' });
+		res.end(fixture.errorBody ?? '');
+		return;
+	}
+
+	res.writeHead(fixture.status, { ...fixture.headers, 'content-type': 'application/connect+proto' });
+	const body = encodeFixtureBody(fixture, { compress: !options.plain });
+	for (const chunk of splitIntoChunks(body, options.chunk)) {
+		if (res.destroyed) {
+			return;
+		}
+		res.write(chunk);
+		if (options.delayMs > 0) {
+			await new Promise(resolve => setTimeout(resolve, options.delayMs));
+		}
+	}
+	res.end();
+}
+
+// 不转发的逐跳请求头与响应头；fetch 已经解压了响应体，content-encoding 也不能原样返回
+const HOP_BY_HOP_HEADERS = new Set(['host', 'connection', 'keep-alive', 'transfer-encoding', 'content-length', 'content-encoding']);
+
+/** 录制模式：把请求原样转发到 upstream 并流式返回响应，GetDeepWiki 经录制用的 fetch 发出 */
+async function proxyToUpstream(options: MockServerOptions, recordingFetch: typeof fetch, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+	const body = await readBody(req);
+	const headers = new Headers();
+	for (const [name, value] of Object.entries(req.headers)) {
+		if (typeof value === 'string' && !HOP_BY_HOP_HEADERS.has(name)) {
+			headers.set(name, value);
+		}
+	}
+	const doFetch = req.url === GET_DEEPWIKI_PATH ? recordingFetch : fetch;
+	const response = await doFetch(new URL(req.url ?? '/', options.upstream).toString(), {
+		method: req.method,
+		headers,
+		body: req.method === 'GET' || req.method === 'HEAD' ? undefined : body
+	});
+	console.log(`[mock-server] ${req.url} -> ${options.upstream} (${response.status})`);
+
+	const responseHeaders: Record<string, string> = {};
+	response.headers.forEach((value, name) => {
+		if (!HOP_BY_HOP_HEADERS.has(name)) {
+			responseHeaders[name] = value;
+		}
+	});
+	res.writeHead(response.status, responseHeaders);
+	if (response.body) {
+		for await (const chunk of response.body) {
+			if (res.destroyed) {
+				return;
+			}
+			res.write(chunk);
+		}
+	}
+	res.end();
+}
+
+export function startMockServer(options: MockServerOptions): http.Server {
+	const recordingFetch = options.recordDir ? createRecordingFetch(options.recordDir) : undefined;
+	if (recordingFetch && !options.upstream) {
+		throw new Error('--record requires --upstream');
+	}
+	const server = http.createServer((req, res) => {
+		const handle = async () => {
+			if (recordingFetch) {
+				return proxyToUpstream(options, recordingFetch, req, res);
+			}
+			switch (req.url) {
+				case GET_DEEPWIKI_PATH:
+					return replayDeepwiki(options, req, res);
+				case REGISTER_USER_PATH:
+					await readBody(req);
+					res.writeHead(200, { 'content-type': 'application/proto' });
+					res.end(protoStringFields({ 1: 'mock-api-key', 2: 'Mock User', 3: `http://127.0.0.1:${options.port}` }));
+					return;
+				case GET_USER_JWT_PATH:
+					await readBody(req);
+					res.writeHead(200, { 'content-type': 'application/proto' });
+					res.end(protoStringFields({ 1: unsignedJwt() }));
+					return;
+				default:
+					res.writeHead(404, { 'content-type': 'application/json' });
+					res.end(JSON.stringify({ code: 'unimplemented', message: `no mock for ${req.url}` }));
+			}
+		};
+		handle().catch(err => {
+			console.error('[mock-server] request failed', err);
+			if (!res.headersSent) {
+				res.writeHead(500, { 'content-type': 'application/json' });
+			}
+			res.end(JSON.stringify({ code: 'internal', message: String(err) }));
+		});
+	});
+	server.listen(options.port, '127.0.0.1', () => {
+		console.log(recordingFetch
+			? `[mock-server] listening on http://127.0.0.1:${options.port} (recording ${options.upstream} to ${options.recordDir})`
+			: `[mock-server] listening on http://127.0.0.1:${options.port} (fixtures: ${options.fixturesDir})`);
+	});
+	return server;
+}
+
+if (require.main === module) {
+	startMockServer(parseArgs(process.argv.slice(2)));
+}
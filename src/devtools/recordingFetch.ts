@@ -0,0 +1,117 @@
+import type { JsonObject } from '@protobuf-ts/runtime';
+import {
+	GetDeepWikiRequest as PBGetDeepWikiRequest,
+	GetDeepWikiResponse as PBGetDeepWikiResponse
+} from '../generated/deepwiki_full';
+import { EnvelopeDecoder } from '../deepwiki/connectTransport';
+import { DeepwikiFixture, FixtureFrame, scrubHeaders, scrubSecrets, writeFixture } from './fixtures';
+
+/**
+ * 录制 GetDeepWiki 的真实响应流：包装转发请求使用的 fetch，
+ * 调用方照常读取响应，同时把每一帧写入 fixture 文件（凭据已替换）
+ * 只由 mock 服务的录制模式使用（mockServer --record），扩展本身不会录制
+ */
+
+export function createRecordingFetch(dir: string, inner: typeof fetch = fetch): typeof fetch {
+	return async (input, init) => {
+		const request = decodeRequest(init?.body);
+		const response = await inner(input, init);
+		const secrets = [request?.metadata?.apiKey ?? '', request?.metadata?.authToken ?? ''];
+		const name = fixtureName(request);
+		const base: DeepwikiFixture = {
+			version: 1,
+			recordedAt: new Date().toISOString(),
+			request: request && summarizeRequest(request),
+			status: response.status,
+			headers: scrubHeaders(response.headers, secrets),
+			frames: []
+		};
+
+		if (!response.ok || !response.body) {
+			const errorBody = await response.clone().text().catch(() => '');
+			void saveFixture(dir, name, { ...base, errorBody: scrubSecrets(errorBody, secrets) });
+			return response;
+		}
+
+		// 一份交给调用方，一份在后台解析录制
+		const [forCaller, forRecorder] = response.body.tee();
+		void recordFrames(forRecorder, secrets).then(
+			frames => saveFixture(dir, name, { ...base, frames }),
+			err => console.warn('[context-code-text] Recorder: failed to read the response stream', err)
+		);
+		return new Response(forCaller, { status: response.status, statusText: response.statusText, headers: response.headers });
+	};
+}
+
+function decodeRequest(body: unknown): PBGetDeepWikiRequest | undefined {
+	if (!(body instanceof Uint8Array)) {
+		return undefined;
+	}
+	const frame = new EnvelopeDecoder().push(body)[0];
+	if (!frame) {
+		return undefined;
+	}
+	try {
+		return PBGetDeepWikiRequest.fromBinary(frame.payload);
+	} catch {
+		return undefined;
+	}
+}
+
+/** 请求摘要：只保留符号、类型与上下文长度，不保存 metadata 与上下文原文 */
+function summarizeRequest(request: PBGetDeepWikiRequest): JsonObject {
+	return {
+		symbolName: request.symbolName,
+		requestType: request.requestType,
+		symbolType: request.symbolType,
+		language: request.language,
+		modelType: request.modelType,
+		contextLength: request.context.length
+	};
+}
+
+function fixtureName(request: PBGetDeepWikiRequest | undefined): string {
+	const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+	const symbol = (request?.symbolName || 'unknown').replace(/[^A-Za-z0-9_-]+/g, '_').slice(0, 40);
+	return `${stamp}-${symbol}`;
+}
+
+async function recordFrames(stream: ReadableStream<Uint8Array>, secrets: string[]): Promise<FixtureFrame[]> {
+	const decoder = new EnvelopeDecoder();
+	const frames: FixtureFrame[] = [];
+	const reader = stream.getReader();
+	while (true) {
+		const { value, done } = await reader.read();
+		if (done) {
+			break;
+		}
+		for (const frame of decoder.push(value)) {
+			if (frame.endStream) {
+				let body: JsonObject;
+				try {
+					body = JSON.parse(frame.payload.toString('utf8')) as JsonObject;
+				} catch {
+					body = { raw: frame.payload.toString('utf8') };
+				}
+				frames.push({ kind: 'endStream', body: scrubSecrets(body, secrets) });
+				continue;
+			}
+			try {
+				const message = PBGetDeepWikiResponse.toJson(PBGetDeepWikiResponse.fromBinary(frame.payload));
+				frames.push({ kind: 'message', message: scrubSecrets(message, secrets) });
+			} catch {
+				// 与传输层一致：跳过无法解码的帧
+			}
+		}
+	}
+	return frames;
+}
+
+async function saveFixture(dir: string, name: string, fixture: DeepwikiFixture): Promise<void> {
+	try {
+		const file = await writeFixture(dir, name, fixture);
+		console.log(`[context-code-text] Recorder: saved ${fixture.frames.length} frames to ${file}`);
+	} catch (err) {
+		console.warn('[context-code-text] Recorder: failed to write fixture', err);
+	}
+}
@@ -7,8 +7,13 @@ import { LspService } from './lspService';
 import { TraceService } from './traceService';
 import { initGlobalState } from './globalState';
 import { ServiceRegistry } from './types';
-import { runWindsurfLogin } from './windsurfLogin';
+import { runWindsurfLogin, runWindsurfLogout, switchWindsurfAccount } from './windsurfLogin';
+import { initCredentialProvider } from './credentialProvider';
+import { AccountStatusBar } from './accountStatusBar';
+import { checkWindsurfConnection } from './windsurfAuth';
 import { ContextWebviewViewProvider } from './contextView';
+import { ArticleCache } from './articleCache';
+import { requestLogDisposable } from './deepwiki/requestLog';
 
 let disposables: vscode.Disposable[] = [];
 const HAS_OUTLINE_CONTEXT_KEY = 'contextCodeText.hasOutlineContext';
@@ -17,6 +22,14 @@ let contextUpdateToken = 0;
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
 	// 初始化全局状态存储
 	initGlobalState(context);
+	// 凭据保存在 SecretStorage，首次启动时迁移旧版 settings 中的值
+	// 迁移失败（例如系统钥匙串不可用）不影响其他功能，按未登录继续激活
+	try {
+		await initCredentialProvider(context);
+	} catch (err) {
+		console.error('[context-code-text] Failed to migrate legacy Windsurf credentials', err);
+		void vscode.window.showWarningMessage(`迁移旧版 Windsurf 凭据失败，请重新运行 Windsurf Login: ${err instanceof Error ? err.message : String(err)}`);
+	}
 	const lsp = new LspService(vscode.commands, vscode.workspace);
 	const nodeScore = new NodeScoreService();
 	const nodeCreator = new NodeCreatorService(lsp);
@@ -32,17 +45,38 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		void runWindsurfLogin();
 	});
 
-	const contextViewProvider = new ContextWebviewViewProvider(nodeCreator, context.extensionUri);
+	const logoutDisposable = vscode.commands.registerCommand('context-code-text.logoutWindsurf', () => {
+		void runWindsurfLogout();
+	});
+
+	const switchAccountDisposable = vscode.commands.registerCommand('context-code-text.switchAccount', () => {
+		void switchWindsurfAccount();
+	});
+	const checkConnectionDisposable = vscode.commands.registerCommand('context-code-text.checkConnection', () => {
+		void checkWindsurfConnection();
+	});
+	const accountStatusBar = new AccountStatusBar();
+
+	const articleCache = new ArticleCache(context.globalStorageUri);
+	const contextViewProvider = new ContextWebviewViewProvider(nodeCreator, context.extensionUri, articleCache, context.workspaceState);
 	const viewDisposable = vscode.window.registerWebviewViewProvider('contextCodeText.contextView', contextViewProvider);
 
 	const deepwikiDisposable = vscode.commands.registerCommand('context-code-text.showDeepWiki', () => {
 		void contextViewProvider.updateForEditor(vscode.window.activeTextEditor ?? undefined);
 	});
 
+	const summaryDisposable = vscode.commands.registerCommand('context-code-text.showDeepWikiSummary', () => {
+		void contextViewProvider.updateForEditor(vscode.window.activeTextEditor ?? undefined, { requestType: 'summary' });
+	});
+
 	const refreshDisposable = vscode.commands.registerCommand('context-code-text.refresh', () => {
 		void contextViewProvider.refreshCurrentEntry();
 	});
 
+	const stopGeneratingDisposable = vscode.commands.registerCommand('context-code-text.stopGenerating', () => {
+		contextViewProvider.stopGenerating();
+	});
+
 	const copyArticleDisposable = vscode.commands.registerCommand('context-code-text.copyArticle', () => {
 		contextViewProvider.copyCurrentArticle();
 	});
@@ -55,6 +89,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		contextViewProvider.goForward();
 	});
 
+	const historyDisposable = vscode.commands.registerCommand('context-code-text.showHistory', () => {
+		void contextViewProvider.showHistoryPicker();
+	});
+
 	const exportArticleDisposable = vscode.commands.registerCommand('context-code-text.exportArticle', () => {
 		void contextViewProvider.exportArticleToNewFile();
 	});
@@ -63,7 +101,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		void contextViewProvider.exportContextToNewFile();
 	});
 
-	context.subscriptions.push(lsp, ...disposables, loginDisposable, viewDisposable, deepwikiDisposable, refreshDisposable, copyArticleDisposable, goBackDisposable, goForwardDisposable, exportArticleDisposable, exportContextDisposable);
+	const clearCacheDisposable = vscode.commands.registerCommand('context-code-text.clearCache', () => {
+		void contextViewProvider.clearCache();
+	});
+
+	context.subscriptions.push(lsp, ...disposables, loginDisposable, logoutDisposable, switchAccountDisposable, checkConnectionDisposable, accountStatusBar, viewDisposable, deepwikiDisposable, summaryDisposable, refreshDisposable, stopGeneratingDisposable, copyArticleDisposable, goBackDisposable, goForwardDisposable, historyDisposable, exportArticleDisposable, exportContextDisposable, clearCacheDisposable, requestLogDisposable);
 	registerContextKeyUpdater(context, nodeCreator);
 }
 
@@ -108,6 +108,10 @@ export class RichNode {
 		return this.services.nodeContext.nodeSummaryContext(this);
 	}
 
+	getSummarySections() {
+		return this.services.nodeContext.nodeSummarySections(this);
+	}
+
 	getArticleContext(): Promise<string> {
 		return this.services.nodeContext.nodeArticleContext(this);
 	}
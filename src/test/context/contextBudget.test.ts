@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { setConfiguration } from '../vscode';
+import { resolveContextBudget } from '../../config/contextBudget';
+import { BudgetedContext, ContextSectionKey, applyContextBudget } from '../../context/contextBudget';
+import { FIXTURE_WORKSPACES_DIR, openFixtureWorkspace } from './fixtureWorkspace';
+
+const SHOP = path.join(FIXTURE_WORKSPACES_DIR, 'shop');
+// grep 部分用固定的搜索结果，预算的 golden 不随 grep 的实现变化
+const GREP_FIXTURES_DIR = path.resolve(__dirname, '../fixtures/context');
+
+function grepFixture(name: string): string {
+	return fs.readFileSync(path.join(GREP_FIXTURES_DIR, name), 'utf8');
+}
+
+/** golden 中先列出各部分的大小，再给出实际发送的文本 */
+function renderBudgeted(context: BudgetedContext): string {
+	const rows = context.sections.map(s => `${s.key}: ${s.originalChars} -> ${s.finalChars} chars, ${s.truncatedLines} lines truncated`);
+	return [`limit: ${context.limitChars}`, ...rows, '', context.text].join('\n');
+}
+
+describe('applyContextBudget', () => {
+	let sections: Partial<Record<ContextSectionKey, string>>;
+
+	beforeAll(async () => {
+		const ws = openFixtureWorkspace(SHOP);
+		try {
+			const node = await ws.node('src/pricing/tax.ts', 'priceWithTax');
+			const [file, usage, trace] = await Promise.all([
+				node.getFileContext(),
+				node.getUsageContext(),
+				node.getTraceContext()
+			]);
+			sections = {
+				file: ws.normalize(file),
+				usage: ws.normalize(usage),
+				trace: ws.normalize(trace),
+				quickGrep: grepFixture('priceWithTax.quickGrep.txt'),
+				fullGrep: grepFixture('priceWithTax.fullGrep.txt')
+			};
+		} finally {
+			ws.dispose();
+		}
+	});
+
+	afterEach(() => {
+		setConfiguration({});
+	});
+
+	it('sends every section unchanged when the budget is not exceeded', () => {
+		const budgeted = applyContextBudget(sections, resolveContextBudget());
+		expect(budgeted.sections.map(s => s.key)).toEqual(['file', 'usage', 'trace', 'quickGrep', 'fullGrep']);
+		expect(budgeted.sections.every(s => s.truncatedLines === 0 && s.finalChars === s.originalChars)).toBe(true);
+		expect(budgeted.text).toBe(Object.values(sections).join('\n\n'));
+	});
+
+	it('trims grep results first and keeps the lines nearest the symbol', async () => {
+		setConfiguration({ 'context-code-text.contextBudget.limit': 3000, 'context-code-text.contextBudget.unit': 'characters' });
+		const budgeted = applyContextBudget(sections, resolveContextBudget());
+		expect(budgeted.text.length).toBeLessThanOrEqual(3000);
+		await expect(renderBudgeted(budgeted)).toMatchFileSnapshot('__golden__/contextBudget.tight.txt');
+	});
+
+	it('honours per-section priority and minimum overrides', async () => {
+		setConfiguration({
+			'context-code-text.contextBudget.limit': 600,
+			'context-code-text.contextBudget.sections': {
+				file: { minChars: 300 },
+				usage: { minChars: 0 },
+				trace: { priority: 0, minChars: 200 },
+				quickGrep: { minChars: 0 }
+			}
+		});
+		const budgeted = applyContextBudget(sections, resolveContextBudget());
+		expect(budgeted.limitChars).toBe(2400);
+		expect(budgeted.text.length).toBeLessThanOrEqual(2400);
+		await expect(renderBudgeted(budgeted)).toMatchFileSnapshot('__golden__/contextBudget.overrides.txt');
+	});
+});
@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { getFileContext } from '../../context/fileContext';
+import { getUsageContext } from '../../context/usageContext';
+import { getTraceContext } from '../../context/traceContext';
+import { TraceResult } from '../../types';
+import { FIXTURE_WORKSPACES_DIR, FixtureWorkspace, openFixtureWorkspace } from './fixtureWorkspace';
+
+const SHOP = path.join(FIXTURE_WORKSPACES_DIR, 'shop');
+
+/** 追踪路径的概要：每个节点的名称、候选父节点与选中的下标 */
+function describeTrace(result: TraceResult) {
+	return result.trace.map(node => ({
+		name: node.richNode.getName(),
+		parentCandidates: node.parentCandidates.map(p => p.symbol.name),
+		parentIndex: node.parentIndex
+	}));
+}
+
+describe('context builders', () => {
+	let ws: FixtureWorkspace;
+
+	afterEach(() => {
+		ws?.dispose();
+	});
+
+	describe('getFileContext', () => {
+		it('shows the whole file and the symbol range for a small file', async () => {
+			ws = openFixtureWorkspace(SHOP);
+			const text = await getFileContext(await ws.node('src/cart/cart.ts', 'addItem'));
+			await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/fileContext.addItem.txt');
+		});
+
+		it('shows 100 lines around the symbol for a file longer than 400 lines', async () => {
+			const root = fs.mkdtempSync(path.join(os.tmpdir(), 'context-code-text-'));
+			try {
+				const lines = [
+					'export const SKUS = [',
+					...Array.from({ length: 200 }, (_, i) => `\t'sku-${i}',`),
+					'];',
+					'',
+					'export function lookupSku(index: number): string {',
+					'\treturn SKUS[index];',
+					'}',
+					'',
+					'export const PRICES = [',
+					...Array.from({ length: 200 }, (_, i) => `\t${i}.99,`),
+					'];'
+				];
+				fs.writeFileSync(path.join(root, 'catalog.ts'), lines.join('\n'));
+				ws = openFixtureWorkspace(root);
+				const text = await getFileContext(await ws.node('catalog.ts', 'lookupSku'));
+				await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/fileContext.largeFile.txt');
+			} finally {
+				fs.rmSync(root, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('getUsageContext', () => {
+		it('lists callers from the call hierarchy and references with a pointer', async () => {
+			ws = openFixtureWorkspace(SHOP);
+			const text = await getUsageContext(await ws.node('src/pricing/tax.ts', 'priceWithTax'));
+			await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/usageContext.priceWithTax.txt');
+		});
+
+		it('renders a method called from another file', async () => {
+			ws = openFixtureWorkspace(SHOP);
+			const text = await getUsageContext(await ws.node('src/cart/cart.ts', 'addItem'));
+			await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/usageContext.addItem.txt');
+		});
+
+		it('lists only the declaration of a symbol without callers', async () => {
+			ws = openFixtureWorkspace(SHOP);
+			const text = await getUsageContext(await ws.node('src/index.ts', 'main'));
+			await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/usageContext.main.txt');
+		});
+	});
+
+	describe('TraceService.build', () => {
+		it('follows the best scored caller up to the entry point', async () => {
+			ws = openFixtureWorkspace(SHOP);
+			const result = await ws.trace.getTrace(await ws.node('src/pricing/tax.ts', 'priceWithTax'));
+			expect(describeTrace(result)).toEqual([
+				{ name: 'priceWithTax', parentCandidates: ['grandTotal', 'formatShelfPrice', 'testPriceWithTax'], parentIndex: 0 },
+				{ name: 'grandTotal', parentCandidates: ['checkout'], parentIndex: 0 },
+				{ name: 'checkout', parentCandidates: ['main'], parentIndex: 0 },
+				{ name: 'main', parentCandidates: [], parentIndex: -1 }
+			]);
+		});
+
+		it('stops after five levels of callers', async () => {
+			ws = openFixtureWorkspace(SHOP);
+			const result = await ws.trace.getTrace(await ws.node('src/pipeline/stages.ts', 'stageSeven'));
+			expect(describeTrace(result)).toEqual([
+				{ name: 'stageSeven', parentCandidates: ['stageSix'], parentIndex: 0 },
+				{ name: 'stageSix', parentCandidates: ['stageFive'], parentIndex: 0 },
+				{ name: 'stageFive', parentCandidates: ['stageFour'], parentIndex: 0 },
+				{ name: 'stageFour', parentCandidates: ['stageThree'], parentIndex: 0 },
+				{ name: 'stageThree', parentCandidates: ['stageTwo'], parentIndex: 0 },
+				{ name: 'stageTwo', parentCandidates: [], parentIndex: -1 }
+			]);
+		});
+
+		it('stops at a symbol already on the path', async () => {
+			ws = openFixtureWorkspace(SHOP);
+			const result = await ws.trace.getTrace(await ws.node('src/pipeline/parity.ts', 'isEven'));
+			expect(describeTrace(result)).toEqual([
+				{ name: 'isEven', parentCandidates: ['isOdd'], parentIndex: 0 },
+				{ name: 'isOdd', parentCandidates: ['isEven'], parentIndex: 0 },
+				{ name: 'isEven', parentCandidates: [], parentIndex: -1 }
+			]);
+		});
+	});
+
+	describe('getTraceContext', () => {
+		it('renders each node of the trace with its source', async () => {
+			ws = openFixtureWorkspace(SHOP);
+			const text = await getTraceContext(await ws.node('src/pricing/tax.ts', 'priceWithTax'));
+			await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/traceContext.priceWithTax.txt');
+		});
+
+		it('ends the rendered trace at a cycle', async () => {
+			ws = openFixtureWorkspace(SHOP);
+			const text = await getTraceContext(await ws.node('src/pipeline/parity.ts', 'isEven'));
+			await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/traceContext.isEven.txt');
+		});
+	});
+});
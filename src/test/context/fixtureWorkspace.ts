@@ -0,0 +1,71 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { workspace } from '../vscode';
+import { FakeLanguageServer } from '../fakeLsp';
+import { LspService } from '../../lspService';
+import { NodeScoreService } from '../../nodeScoreService';
+import { NodeCreatorService } from '../../nodeCreatorService';
+import { NodeContextService } from '../../context/nodeContextService';
+import { TraceService } from '../../traceService';
+import { RichNode } from '../../richNode';
+import { ServiceRegistry } from '../../types';
+
+/**
+ * 把一个 fixture 目录作为唯一的工作区文件夹打开，按 extension.ts 的方式组装服务，
+ * 语言服务命令由 FakeLanguageServer 提供
+ */
+
+export const FIXTURE_WORKSPACES_DIR = path.resolve(__dirname, '../fixtures/workspaces');
+
+export interface FixtureWorkspace {
+	root: string;
+	server: FakeLanguageServer;
+	lsp: LspService;
+	trace: TraceService;
+	uri(file: string): vscode.Uri;
+	/** 符号声明处的 RichNode，与在编辑器中把光标放在声明名称上得到的节点相同 */
+	node(file: string, name: string): Promise<RichNode>;
+	/** 把输出中的绝对路径替换为 <root>，golden 文件与检出位置无关 */
+	normalize(text: string): string;
+	dispose(): void;
+}
+
+export function openFixtureWorkspace(root: string): FixtureWorkspace {
+	const server = new FakeLanguageServer(root);
+	workspace.workspaceFolders = [{ uri: vscode.Uri.file(root), name: path.basename(root), index: 0 }];
+
+	const lsp = new LspService(server.commands, vscode.workspace);
+	const nodeScore = new NodeScoreService();
+	const nodeCreator = new NodeCreatorService(lsp);
+	const nodeContext = new NodeContextService();
+	const trace = new TraceService(nodeScore, nodeCreator);
+	const registry: ServiceRegistry = { lsp, trace, nodeContext };
+	nodeCreator.setRegistry(registry);
+
+	const uri = (file: string) => vscode.Uri.file(path.join(root, file));
+	return {
+		root,
+		server,
+		lsp,
+		trace,
+		uri,
+		async node(file, name) {
+			const declaration = server.declaration(name, uri(file));
+			if (!declaration || declaration.uri.fsPath !== uri(file).fsPath) {
+				throw new Error(`${file} 中没有 ${name} 的声明`);
+			}
+			const node = await nodeCreator.getRichNode(declaration.uri, declaration.symbol.selectionRange.start);
+			if (!node) {
+				throw new Error(`无法为 ${name} 创建节点`);
+			}
+			return node;
+		},
+		normalize(text) {
+			return text.split(root).join('<root>');
+		},
+		dispose() {
+			lsp.dispose();
+			workspace.workspaceFolders = undefined;
+		}
+	};
+}
@@ -0,0 +1,56 @@
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { setConfiguration } from '../vscode';
+import { runGrep } from '../../context/grep';
+import { FIXTURE_WORKSPACES_DIR, FixtureWorkspace, openFixtureWorkspace } from './fixtureWorkspace';
+
+const SHOP = path.join(FIXTURE_WORKSPACES_DIR, 'shop');
+const MONOREPO = path.join(FIXTURE_WORKSPACES_DIR, 'monorepo');
+
+describe('runGrep', () => {
+	let ws: FixtureWorkspace;
+	afterEach(() => {
+		ws?.dispose();
+		setConfiguration({});
+	});
+
+	it('quick grep searches the symbol folder and its siblings, skipping the definition and LSP references', async () => {
+		ws = openFixtureWorkspace(SHOP);
+		const text = await runGrep(await ws.node('src/pricing/tax.ts', 'priceWithTax'), 'quick');
+		await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/grep.quick.priceWithTax.txt');
+	});
+
+	it('quick grep stays in the symbol folder when its parent is the package root', async () => {
+		ws = openFixtureWorkspace(SHOP);
+		const text = await runGrep(await ws.node('src/checkout.ts', 'checkout'), 'quick');
+		await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/grep.quick.checkout.txt');
+	});
+
+	it('quick grep continues with the package root of a nested package', async () => {
+		ws = openFixtureWorkspace(MONOREPO);
+		const text = await runGrep(await ws.node('packages/billing/src/invoice/lines/lineTotal.ts', 'lineTotal'), 'quick');
+		await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/grep.quick.nestedPackage.txt');
+	});
+
+	it('quick grep skips the package root once the folder scan reaches the file cap', async () => {
+		setConfiguration({ 'context-code-text.quickGrep.maxFiles': 1 });
+		ws = openFixtureWorkspace(MONOREPO);
+		const text = await runGrep(await ws.node('packages/billing/src/invoice/lines/lineTotal.ts', 'lineTotal'), 'quick');
+		expect(text).toContain('Quick search (packages/billing/src/invoice/lines and sibling folders; whole word');
+		expect(text).not.toContain('package root');
+		expect(text).toContain('discounts.ts');
+	});
+
+	it('full grep searches the whole workspace folder and ranks test files last', async () => {
+		ws = openFixtureWorkspace(SHOP);
+		const text = await runGrep(await ws.node('src/pricing/tax.ts', 'priceWithTax'), 'full');
+		await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/grep.full.priceWithTax.txt');
+	});
+
+	it('full grep leaves out files matched by contextExclude', async () => {
+		setConfiguration({ 'context-code-text.contextExclude': ['test/**', '**/format.ts'] });
+		ws = openFixtureWorkspace(SHOP);
+		const text = await runGrep(await ws.node('src/pricing/tax.ts', 'priceWithTax'), 'full');
+		await expect(ws.normalize(text)).toMatchFileSnapshot('__golden__/grep.full.excluded.txt');
+	});
+});
@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { describe, expect, it } from 'vitest';
+import { TextDocument, Uri } from '../vscode';
+import { renderFileSlice } from '../../render';
+import { FIXTURE_WORKSPACES_DIR } from './fixtureWorkspace';
+
+function fixtureDocument(file: string): vscode.TextDocument {
+	const fsPath = path.join(FIXTURE_WORKSPACES_DIR, 'shop', file);
+	return new TextDocument(Uri.file(fsPath), fs.readFileSync(fsPath, 'utf8')) as unknown as vscode.TextDocument;
+}
+
+function textDocument(lines: string[]): vscode.TextDocument {
+	return new TextDocument(Uri.file('/virtual/slice.ts'), lines.join('\n')) as unknown as vscode.TextDocument;
+}
+
+describe('renderFileSlice', () => {
+	it('numbers every line of a slice within the limits', async () => {
+		await expect(renderFileSlice(fixtureDocument('src/pricing/tax.ts'), 2, 6)).toMatchFileSnapshot('__golden__/renderFileSlice.plain.txt');
+	});
+
+	it('drops the deepest indentation levels first when the slice has too many lines', async () => {
+		const doc = fixtureDocument('src/cart/cart.ts');
+		await expect(renderFileSlice(doc, 0, doc.lineCount - 1, 200, 12)).toMatchFileSnapshot('__golden__/renderFileSlice.indent.txt');
+	});
+
+	it('keeps part of the next indentation level to fill the line budget', async () => {
+		const doc = fixtureDocument('src/cart/cart.ts');
+		await expect(renderFileSlice(doc, 8, 27, 200, 8)).toMatchFileSnapshot('__golden__/renderFileSlice.partialIndent.txt');
+	});
+
+	it('cuts long lines and reports how many characters were removed', async () => {
+		const doc = textDocument([
+			'export const MESSAGES = {',
+			`\twelcome: '${'Welcome to the shop! '.repeat(6)}',`,
+			"\tbye: 'See you soon'",
+			'};'
+		]);
+		await expect(renderFileSlice(doc, 0, 3, 40)).toMatchFileSnapshot('__golden__/renderFileSlice.longLine.txt');
+	});
+
+	it('marks the requested lines that lie past the end of the document', async () => {
+		const doc = textDocument(['function tail() {', '\treturn 1;', '}']);
+		await expect(renderFileSlice(doc, 0, 6)).toMatchFileSnapshot('__golden__/renderFileSlice.pastEnd.txt');
+	});
+});
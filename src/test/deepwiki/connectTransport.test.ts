@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+	DeepWikiRequestType,
+	GetDeepWikiRequest as PBGetDeepWikiRequest,
+	GetDeepWikiResponse as PBGetDeepWikiResponse
+} from '../../generated/deepwiki_full';
+import { DeepWikiServiceClient } from '../../generated/deepwiki_full.client';
+import { DeepwikiCallOptions } from '../../deepwiki/callOptions';
+import { ConnectFrame, ConnectTransport, EnvelopeDecoder } from '../../deepwiki/connectTransport';
+import { DeepwikiError } from '../../deepwiki/errors';
+import { DeepwikiFixture, encodeFixtureBody, splitIntoChunks } from '../../devtools/fixtures';
+import { FixtureFetchOptions, createFixtureFetch, loadFixture } from './fixtureFetch';
+
+const CHUNKINGS: { name: string; chunkSize: number | 'random'; seed?: number }[] = [
+	{ name: '1-byte chunks', chunkSize: 1 },
+	{ name: '3-byte chunks', chunkSize: 3 },
+	...[1, 7, 42].map(seed => ({ name: `random chunks (seed ${seed})`, chunkSize: 'random' as const, seed }))
+];
+const ENCODINGS = [{ name: 'gzip', compress: true }, { name: 'plain', compress: false }];
+
+/** fixture 中的帧解码后应得到的内容：数据帧为 protobuf，end-stream 帧为 JSON */
+function expectedFrames(fixture: DeepwikiFixture): ConnectFrame[] {
+	return fixture.frames.map(frame => frame.kind === 'message'
+		? { endStream: false, payload: Buffer.from(PBGetDeepWikiResponse.toBinary(PBGetDeepWikiResponse.fromJson(frame.message))) }
+		: { endStream: true, payload: Buffer.from(JSON.stringify(frame.body), 'utf8') });
+}
+
+function expectedMessages(fixture: DeepwikiFixture): PBGetDeepWikiResponse[] {
+	return fixture.frames.flatMap(frame => frame.kind === 'message' ? [PBGetDeepWikiResponse.fromJson(frame.message)] : []);
+}
+
+/** 通过生成的客户端发起一次调用，收集收到的消息与最终结果 */
+async function runCall(fixture: DeepwikiFixture, fetchOptions: FixtureFetchOptions = {}, abort?: AbortSignal) {
+	const fixtureFetch = createFixtureFetch(fixture, fetchOptions);
+	const client = new DeepWikiServiceClient(new ConnectTransport({ fetch: fixtureFetch.fetch }));
+	const options: DeepwikiCallOptions = { baseUrl: 'http://mock.test', abort };
+	const call = client.getDeepWiki(PBGetDeepWikiRequest.create({ symbolName: 'answer', requestType: DeepWikiRequestType.ARTICLE }), options);
+	const messages: PBGetDeepWikiResponse[] = [];
+	call.responses.onMessage(message => messages.push(message));
+	const outcome = await Promise.resolve(call).then(
+		finished => ({ finished, error: undefined }),
+		(error: unknown) => ({ finished: undefined, error })
+	);
+	return { ...outcome, messages, requests: fixtureFetch.requests };
+}
+
+describe('EnvelopeDecoder', () => {
+	for (const name of ['basic', 'end-stream-error', 'capacity-end-stream']) {
+		for (const encoding of ENCODINGS) {
+			for (const chunking of CHUNKINGS) {
+				it(`decodes ${name} (${encoding.name}, ${chunking.name})`, () => {
+					const fixture = loadFixture(name);
+					const body = encodeFixtureBody(fixture, { compress: encoding.compress });
+					const decoder = new EnvelopeDecoder();
+					const frames = splitIntoChunks(body, chunking.chunkSize, chunking.seed).flatMap(chunk => decoder.push(chunk));
+					expect(frames).toEqual(expectedFrames(fixture));
+					expect(decoder.pendingBytes).toBe(0);
+				});
+			}
+		}
+	}
+
+	it('keeps an incomplete frame until the rest arrives', () => {
+		const body = encodeFixtureBody(loadFixture('basic'));
+		const decoder = new EnvelopeDecoder();
+		expect(decoder.push(body.subarray(0, 4))).toEqual([]);
+		expect(decoder.pendingBytes).toBe(4);
+		expect(decoder.push(body.subarray(4)).length).toBe(loadFixture('basic').frames.length);
+		expect(decoder.pendingBytes).toBe(0);
+	});
+});
+
+describe('ConnectTransport.serverStreaming', () => {
+	for (const encoding of ENCODINGS) {
+		for (const chunking of CHUNKINGS) {
+			it(`streams every message of basic (${encoding.name}, ${chunking.name})`, async () => {
+				const fixture = loadFixture('basic');
+				const result = await runCall(fixture, { compress: encoding.compress, chunkSize: chunking.chunkSize, seed: chunking.seed });
+				expect(result.error).toBeUndefined();
+				expect(result.messages).toEqual(expectedMessages(fixture));
+				expect(result.finished?.headers['x-request-id']).toBe('mock-request-basic');
+				expect(result.finished?.status.code).toBe('OK');
+			});
+		}
+	}
+
+	it('posts a Connect envelope to the server route of GetDeepWiki', async () => {
+		const result = await runCall(loadFixture('basic'));
+		expect(result.requests).toHaveLength(1);
+		const [request] = result.requests;
+		expect(request.url).toBe('http://mock.test/exa.api_server_pb.ApiServerService/GetDeepWiki');
+		expect(request.headers['content-type']).toBe('application/connect+proto');
+		expect(request.request.symbolName).toBe('answer');
+	});
+
+	it('fails with the end-stream error after delivering the earlier messages', async () => {
+		for (const chunking of CHUNKINGS) {
+			const result = await runCall(loadFixture('end-stream-error'), { chunkSize: chunking.chunkSize, seed: chunking.seed });
+			expect(result.messages).toEqual(expectedMessages(loadFixture('end-stream-error')));
+			expect(result.error).toBeInstanceOf(DeepwikiError);
+			const error = result.error as DeepwikiError;
+			expect(error.code).toBe('resource_exhausted');
+			expect(error.message).toBe('mock: model capacity exhausted');
+			expect(error.httpStatus).toBeUndefined();
+		}
+	});
+
+	it('reports an HTTP error status with the Connect error body', async () => {
+		const result = await runCall(loadFixture('unavailable'));
+		expect(result.messages).toEqual([]);
+		expect(result.error).toBeInstanceOf(DeepwikiError);
+		const error = result.error as DeepwikiError;
+		expect(error.code).toBe('unavailable');
+		expect(error.httpStatus).toBe(503);
+		expect(error.message).toBe('mock: no capacity');
+	});
+
+	it('derives the error code from the HTTP status when the body is not a Connect error', async () => {
+		const result = await runCall({ version: 1, status: 401, errorBody: 'Unauthorized', frames: [] });
+		expect((result.error as DeepwikiError).code).toBe('unauthenticated');
+		expect((result.error as DeepwikiError).httpStatus).toBe(401);
+	});
+
+	it('fails when the response ends in the middle of an envelope', async () => {
+		for (const chunking of CHUNKINGS) {
+			const result = await runCall(loadFixture('basic'), { truncateBytes: 3, chunkSize: chunking.chunkSize, seed: chunking.seed });
+			expect(result.error).toBeInstanceOf(DeepwikiError);
+			expect((result.error as DeepwikiError).code).toBe('data_loss');
+		}
+	});
+
+	it('rejects instead of finishing when the caller aborts and the body just ends', async () => {
+		const controller = new AbortController();
+		const fixtureFetch = createFixtureFetch(loadFixture('basic'), { stallAfterChunks: 1 });
+		const client = new DeepWikiServiceClient(new ConnectTransport({ fetch: fixtureFetch.fetch }));
+		const call = client.getDeepWiki(PBGetDeepWikiRequest.create({ symbolName: 'answer' }), { baseUrl: 'http://mock.test', abort: controller.signal } as DeepwikiCallOptions);
+		// 第一块数据到达后响应体挂起，中止后 reader.cancel() 让读取以 done 结束
+		call.responses.onMessage(() => controller.abort());
+		await expect(Promise.resolve(call)).rejects.toMatchObject({ name: 'AbortError' });
+	});
+});
@@ -0,0 +1,80 @@
+import * as path from 'path';
+import { GetDeepWikiRequest as PBGetDeepWikiRequest } from '../../generated/deepwiki_full';
+import { EnvelopeDecoder } from '../../deepwiki/connectTransport';
+import { DeepwikiFixture, encodeFixtureBody, readFixture, splitIntoChunks } from '../../devtools/fixtures';
+
+/**
+ * 用录制的 fixture 代替网络：返回的 fetch 按 fixture 回放 Connect 响应体
+ */
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../devtools/fixtures');
+
+export function loadFixture(name: string): DeepwikiFixture {
+	return readFixture(path.join(FIXTURES_DIR, `${name}.json`));
+}
+
+export interface FixtureFetchOptions {
+	// 数据帧是否 gzip 压缩，默认 true
+	compress?: boolean;
+	// 分包大小，默认整个响应体作为一块
+	chunkSize?: number | 'random';
+	seed?: number;
+	// 截掉响应体结尾的字节数，模拟连接中途断开
+	truncateBytes?: number;
+	// 发完这么多块后挂起，直到调用方取消读取
+	stallAfterChunks?: number;
+}
+
+export interface FetchedRequest {
+	url: string;
+	headers: Record<string, string>;
+	request: PBGetDeepWikiRequest;
+}
+
+export interface FixtureFetch {
+	fetch: typeof fetch;
+	requests: FetchedRequest[];
+}
+
+/**
+ * @param select 按请求选择 fixture，可以让同一次调用中的重试拿到不同的响应
+ */
+export function createFixtureFetch(
+	select: DeepwikiFixture | ((request: PBGetDeepWikiRequest) => DeepwikiFixture),
+	options: FixtureFetchOptions = {}
+): FixtureFetch {
+	const requests: FetchedRequest[] = [];
+	const fetchImpl = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+		const frame = new EnvelopeDecoder().push(init?.body as Uint8Array)[0];
+		const request = PBGetDeepWikiRequest.fromBinary(frame.payload);
+		requests.push({ url: String(input), headers: { ...(init?.headers as Record<string, string>) }, request });
+		const fixture = typeof select === 'function' ? select(request) : select;
+		if (fixture.status < 200 || fixture.status >= 300) {
+			return new Response(fixture.errorBody ?? '', { status: fixture.status, headers: { 'content-type': 'application/json' } });
+		}
+		let body = encodeFixtureBody(fixture, { compress: options.compress });
+		if (options.truncateBytes) {
+			body = body.subarray(0, body.length - options.truncateBytes);
+		}
+		const chunks = options.chunkSize ? splitIntoChunks(body, options.chunkSize, options.seed) : [body];
+		let index = 0;
+		const stream = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (options.stallAfterChunks !== undefined && index >= options.stallAfterChunks) {
+					// 不再产生数据，也不因 fetch 的 signal 报错；只有 cancel() 能结束读取
+					return new Promise<void>(() => undefined);
+				}
+				if (index < chunks.length) {
+					controller.enqueue(new Uint8Array(chunks[index++]));
+				} else {
+					controller.close();
+				}
+			}
+		});
+		return new Response(stream, {
+			status: fixture.status,
+			headers: { ...fixture.headers, 'content-type': 'application/connect+proto' }
+		});
+	};
+	return { fetch: fetchImpl as typeof fetch, requests };
+}
@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GetDeepWikiRequest as PBGetDeepWikiRequest, Metadata as PBMetadata } from '../../generated/deepwiki_full';
+import { DeepWikiServiceClient } from '../../generated/deepwiki_full.client';
+import { ConnectTransport } from '../../deepwiki/connectTransport';
+import { readFixture } from '../../devtools/fixtures';
+import { createRecordingFetch } from '../../devtools/recordingFetch';
+import { createFixtureFetch, loadFixture } from './fixtureFetch';
+
+describe('createRecordingFetch', () => {
+	let dir: string | undefined;
+
+	afterEach(() => {
+		if (dir) {
+			fs.rmSync(dir, { recursive: true, force: true });
+			dir = undefined;
+		}
+	});
+
+	it('passes the stream through and writes the frames to a fixture without credentials', async () => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deepwiki-record-'));
+		const basic = loadFixture('basic');
+		const upstream = createFixtureFetch(basic, { chunkSize: 'random', seed: 5 });
+		const client = new DeepWikiServiceClient(new ConnectTransport({ fetch: createRecordingFetch(dir, upstream.fetch) }));
+		const call = client.getDeepWiki(
+			PBGetDeepWikiRequest.create({ symbolName: 'answer', metadata: PBMetadata.create({ apiKey: 'secret-api-key' }) }),
+			{ baseUrl: 'http://mock.test' }
+		);
+		let received = 0;
+		call.responses.onMessage(() => received++);
+		await call;
+		expect(received).toBe(basic.frames.filter(f => f.kind === 'message').length);
+
+		// 录制在后台解析，调用方读完后才写入文件
+		const recordedDir = dir;
+		const file = await vi.waitFor(() => {
+			const [name] = fs.readdirSync(recordedDir);
+			expect(name).toMatch(/-answer\.json$/);
+			return path.join(recordedDir, name);
+		});
+		const recorded = await vi.waitFor(() => readFixture(file));
+		expect(recorded.request).toMatchObject({ symbolName: 'answer' });
+		expect(recorded.frames).toEqual(basic.frames);
+		expect(fs.readFileSync(file, 'utf8')).not.toContain('secret-api-key');
+	});
+});
@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * 内存中的语言服务：解析 fixture 工作区中的 TypeScript 文件，
+ * 实现 LspService 调用的 vscode.execute*Provider 与调用层级命令
+ * 只识别 fixture 中用到的写法：顶层函数、类、接口、常量，以及类和接口的成员；
+ * 引用按整词匹配，跳过注释和字符串
+ */
+
+interface SourceFile {
+	uri: vscode.Uri;
+	lines: string[];
+	roots: vscode.DocumentSymbol[];
+	// 按出现顺序排列的所有符号
+	symbols: vscode.DocumentSymbol[];
+}
+
+interface OpenSymbol {
+	symbol: vscode.DocumentSymbol;
+	// 符号体内的大括号深度
+	bodyDepth: number;
+}
+
+const TOP_LEVEL_DECLARATIONS: [RegExp, vscode.SymbolKind][] = [
+	[/^\s*(?:export\s+)?(?:async\s+)?function\s+(\w+)/d, vscode.SymbolKind.Function],
+	[/^\s*(?:export\s+)?(?:abstract\s+)?class\s+(\w+)/d, vscode.SymbolKind.Class],
+	[/^\s*(?:export\s+)?interface\s+(\w+)/d, vscode.SymbolKind.Interface],
+	[/^\s*(?:export\s+)?const\s+(\w+)/d, vscode.SymbolKind.Constant]
+];
+
+const MEMBER_DECLARATIONS: [RegExp, vscode.SymbolKind][] = [
+	[/^\s*(constructor)\s*\(/d, vscode.SymbolKind.Constructor],
+	[/^\s*(?:(?:public|private|protected|static|async)\s+)*(\w+)\s*\(/d, vscode.SymbolKind.Method],
+	[/^\s*(?:(?:public|private|protected|static|readonly)\s+)*(\w+)\??\s*[:=]/d, vscode.SymbolKind.Property]
+];
+
+const CALLABLE_KINDS = new Set([vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor]);
+
+export class FakeLanguageServer {
+	private readonly files = new Map<string, SourceFile>();
+
+	readonly commands = {
+		executeCommand: (command: string, ...args: any[]) => this.execute(command, args)
+	} as unknown as typeof vscode.commands;
+
+	constructor(readonly root: string) {
+		for (const file of listSourceFiles(root)) {
+			const uri = vscode.Uri.file(file);
+			this.files.set(uri.fsPath, parseSourceFile(uri, fs.readFileSync(file, 'utf8')));
+		}
+	}
+
+	/** 符号的声明；同名时优先 preferred 所在的文件 */
+	declaration(name: string, preferred?: vscode.Uri): { uri: vscode.Uri; symbol: vscode.DocumentSymbol } | undefined {
+		const candidates = [...this.files.values()].flatMap(file =>
+			file.symbols.filter(symbol => symbol.name === name).map(symbol => ({ uri: file.uri, symbol }))
+		);
+		return candidates.find(c => c.uri.fsPath === preferred?.fsPath) ?? candidates[0];
+	}
+
+	private async execute(command: string, args: any[]): Promise<unknown> {
+		switch (command) {
+			case 'vscode.executeDocumentSymbolProvider':
+				return this.files.get(args[0].fsPath)?.roots ?? [];
+			case 'vscode.executeDefinitionProvider':
+				return this.definitions(args[0], args[1]);
+			case 'vscode.executeReferenceProvider':
+				return this.references(args[0], args[1]);
+			case 'vscode.prepareCallHierarchy':
+				return this.prepareCallHierarchy(args[0], args[1]);
+			case 'vscode.provideIncomingCalls':
+				return this.incomingCalls(args[0]);
+			case 'vscode.executeHoverProvider':
+				return this.hover(args[0], args[1]);
+			default:
+				throw new Error(`command '${command}' not found`);
+		}
+	}
+
+	private definitions(uri: vscode.Uri, position: vscode.Position): vscode.Location[] {
+		const word = this.wordAt(uri, position);
+		const declaration = word ? this.declaration(word, uri) : undefined;
+		return declaration ? [new vscode.Location(declaration.uri, declaration.symbol.selectionRange)] : [];
+	}
+
+	private references(uri: vscode.Uri, position: vscode.Position): vscode.Location[] {
+		const word = this.wordAt(uri, position);
+		return word ? this.occurrences(word) : [];
+	}
+
+	private prepareCallHierarchy(uri: vscode.Uri, position: vscode.Position): vscode.CallHierarchyItem[] {
+		const word = this.wordAt(uri, position);
+		const declaration = word ? this.declaration(word, uri) : undefined;
+		if (!declaration || !CALLABLE_KINDS.has(declaration.symbol.kind)) {
+			return [];
+		}
+		return [toCallHierarchyItem(declaration.uri, declaration.symbol)];
+	}
+
+	/** 调用处（名称后紧跟括号）按所在的函数或方法分组 */
+	private incomingCalls(item: vscode.CallHierarchyItem): vscode.CallHierarchyIncomingCall[] {
+		const calls: vscode.CallHierarchyIncomingCall[] = [];
+		for (const location of this.occurrences(item.name)) {
+			const file = this.files.get(location.uri.fsPath)!;
+			if (!file.lines[location.range.start.line].slice(location.range.end.character).trimStart().startsWith('(')) {
+				continue;
+			}
+			const caller = enclosingCallable(file.roots, location.range.start);
+			if (!caller || (location.uri.fsPath === item.uri.fsPath && caller.selectionRange.isEqual(item.selectionRange))) {
+				continue;
+			}
+			const existing = calls.find(call => call.from.uri.fsPath === location.uri.fsPath && call.from.selectionRange.isEqual(caller.selectionRange));
+			if (existing) {
+				existing.fromRanges.push(location.range);
+			} else {
+				calls.push({ from: toCallHierarchyItem(location.uri, caller), fromRanges: [location.range] });
+			}
+		}
+		return calls;
+	}
+
+	private hover(uri: vscode.Uri, position: vscode.Position): { contents: { value: string }[] }[] {
+		const word = this.wordAt(uri, position);
+		const declaration = word ? this.declaration(word, uri) : undefined;
+		if (!declaration) {
+			return [];
+		}
+		const line = this.files.get(declaration.uri.fsPath)!.lines[declaration.symbol.range.start.line];
+		return [{ contents: [{ value: `\`\`\`typescript\n${line.trim()}\n\`\`\`` }] }];
+	}
+
+	private wordAt(uri: vscode.Uri, position: vscode.Position): string | undefined {
+		const line = this.files.get(uri.fsPath)?.lines[position.line] ?? '';
+		for (const match of line.matchAll(/\w+/g)) {
+			if (match.index <= position.character && position.character <= match.index + match[0].length) {
+				return match[0];
+			}
+		}
+		return undefined;
+	}
+
+	/** 整个工作区中的整词出现位置，按文件路径和行号排序 */
+	private occurrences(word: string): vscode.Location[] {
+		const locations: vscode.Location[] = [];
+		const pattern = new RegExp(`\\b${word}\\b`, 'g');
+		for (const file of this.files.values()) {
+			file.lines.forEach((line, lineIndex) => {
+				for (const match of line.matchAll(pattern)) {
+					if (isCode(line, match.index)) {
+						locations.push(new vscode.Location(file.uri, new vscode.Range(lineIndex, match.index, lineIndex, match.index + word.length)));
+					}
+				}
+			});
+		}
+		return locations;
+	}
+}
+
+function listSourceFiles(dir: string): string[] {
+	return fs.readdirSync(dir, { withFileTypes: true })
+		.sort((a, b) => a.name.localeCompare(b.name))
+		.flatMap(entry => {
+			const full = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				return entry.name === 'node_modules' ? [] : listSourceFiles(full);
+			}
+			return entry.name.endsWith('.ts') ? [full] : [];
+		});
+}
+
+function parseSourceFile(uri: vscode.Uri, text: string): SourceFile {
+	const lines = text.split(/\r?\n/);
+	const roots: vscode.DocumentSymbol[] = [];
+	const symbols: vscode.DocumentSymbol[] = [];
+	const open: OpenSymbol[] = [];
+	let depth = 0;
+	lines.forEach((line, lineIndex) => {
+		const parent = open.at(-1);
+		const declarations = depth === 0
+			? TOP_LEVEL_DECLARATIONS
+			: parent && depth === parent.bodyDepth && (parent.symbol.kind === vscode.SymbolKind.Class || parent.symbol.kind === vscode.SymbolKind.Interface)
+				? MEMBER_DECLARATIONS
+				: [];
+		let declared: vscode.DocumentSymbol | undefined;
+		for (const [pattern, kind] of declarations) {
+			const match = pattern.exec(line);
+			if (!match?.indices?.[1]) {
+				continue;
+			}
+			const [nameStart, nameEnd] = match.indices[1];
+			const start = new vscode.Position(lineIndex, line.search(/\S/));
+			declared = new vscode.DocumentSymbol(
+				match[1],
+				'',
+				kind,
+				new vscode.Range(start, new vscode.Position(lineIndex, line.length)),
+				new vscode.Range(lineIndex, nameStart, lineIndex, nameEnd)
+			);
+			(parent && depth > 0 ? parent.symbol.children : roots).push(declared);
+			symbols.push(declared);
+			break;
+		}
+
+		const code = stripCommentsAndStrings(line);
+		const opens = code.split('{').length - 1;
+		const closes = code.split('}').length - 1;
+		if (declared && opens > closes) {
+			open.push({ symbol: declared, bodyDepth: depth + 1 });
+		}
+		depth += opens - closes;
+		while (open.length && depth < open[open.length - 1].bodyDepth) {
+			const closed = open.pop()!.symbol;
+			closed.range = new vscode.Range(closed.range.start, new vscode.Position(lineIndex, line.length));
+		}
+	});
+	return { uri, lines, roots, symbols };
+}
+
+function stripCommentsAndStrings(line: string): string {
+	return line.replace(/\/\/.*$/, '').replace(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"/g, '""');
+}
+
+/** 出现位置不在行注释、文档注释或字符串中 */
+function isCode(line: string, index: number): boolean {
+	const before = line.slice(0, index);
+	if (before.includes('//') || /^\s*(\/\*|\*)/.test(line)) {
+		return false;
+	}
+	return ["'", '"'].every(quote => before.split(quote).length % 2 === 1);
+}
+
+function enclosingCallable(symbols: vscode.DocumentSymbol[], position: vscode.Position): vscode.DocumentSymbol | undefined {
+	for (const symbol of symbols) {
+		if (symbol.range.contains(position)) {
+			return enclosingCallable(symbol.children, position) ?? (CALLABLE_KINDS.has(symbol.kind) ? symbol : undefined);
+		}
+	}
+	return undefined;
+}
+
+function toCallHierarchyItem(uri: vscode.Uri, symbol: vscode.DocumentSymbol): vscode.CallHierarchyItem {
+	return { name: symbol.name, kind: symbol.kind, detail: symbol.detail, uri, range: symbol.range, selectionRange: symbol.selectionRange };
+}
@@ -0,0 +1,4 @@
+// Discounts are applied to the invoice total, never per line (see lineTotal).
+export function applyDiscount(total: number, percent: number): number {
+	return Math.round(total * (100 - percent)) / 100;
+}
@@ -0,0 +1,5 @@
+import { InvoiceLine, lineTotal } from './lines/lineTotal';
+
+export function invoiceTotal(lines: InvoiceLine[]): number {
+	return lines.reduce((sum, line) => sum + lineTotal(line), 0);
+}
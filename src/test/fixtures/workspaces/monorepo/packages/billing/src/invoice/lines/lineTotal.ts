@@ -0,0 +1,10 @@
+export interface InvoiceLine {
+	description: string;
+	unitPrice: number;
+	quantity: number;
+}
+
+/** Amount of one invoice line, rounded to cents */
+export function lineTotal(line: InvoiceLine): number {
+	return Math.round(line.unitPrice * line.quantity * 100) / 100;
+}
@@ -0,0 +1,4 @@
+// Monthly figures reuse the invoice totals; lineTotal rounding is kept as is.
+export function monthlyRevenue(invoiceTotals: number[]): number {
+	return invoiceTotals.reduce((sum, total) => sum + total, 0);
+}
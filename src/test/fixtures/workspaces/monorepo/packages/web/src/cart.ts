@@ -0,0 +1,4 @@
+// The web cart shows prices only; billing computes lineTotal on checkout.
+export function cartCount(quantities: number[]): number {
+	return quantities.reduce((sum, quantity) => sum + quantity, 0);
+}
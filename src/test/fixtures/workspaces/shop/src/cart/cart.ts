@@ -0,0 +1,28 @@
+import { priceWithTax } from '../pricing/tax';
+
+export interface CartItem {
+	sku: string;
+	price: number;
+	quantity: number;
+}
+
+export class Cart {
+	private readonly items: CartItem[] = [];
+
+	addItem(sku: string, price: number, quantity = 1): void {
+		const existing = this.items.find(item => item.sku === sku);
+		if (existing) {
+			existing.quantity += quantity;
+			return;
+		}
+		this.items.push({ sku, price, quantity });
+	}
+
+	subtotal(): number {
+		return this.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+	}
+
+	grandTotal(): number {
+		return priceWithTax(this.subtotal());
+	}
+}
@@ -0,0 +1,8 @@
+import { Cart } from './cart/cart';
+import { formatAmount } from './pricing/format';
+
+// Prices are stored net; grandTotal applies priceWithTax exactly once.
+export function checkout(cart: Cart): string {
+	const due = cart.grandTotal();
+	return `Total due: ${formatAmount(due)}`;
+}
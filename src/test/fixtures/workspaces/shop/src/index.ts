@@ -0,0 +1,10 @@
+import { Cart } from './cart/cart';
+import { checkout } from './checkout';
+
+// Sample run: fill a cart and print what checkout reports.
+export function main(): void {
+	const cart = new Cart();
+	cart.addItem('apple', 0.5, 4);
+	cart.addItem('bread', 2.25);
+	console.log(checkout(cart));
+}
@@ -0,0 +1,27 @@
+export function stageOne(input: string): string {
+	return stageTwo(input.trim());
+}
+
+export function stageTwo(input: string): string {
+	return stageThree(input.toLowerCase());
+}
+
+export function stageThree(input: string): string {
+	return stageFour(input.replace(/\s+/g, ' '));
+}
+
+export function stageFour(input: string): string {
+	return stageFive(input.split(' ').reverse().join(' '));
+}
+
+export function stageFive(input: string): string {
+	return stageSix(`[${input}]`);
+}
+
+export function stageSix(input: string): string {
+	return stageSeven(input.padEnd(16, '.'));
+}
+
+export function stageSeven(input: string): string {
+	return input;
+}
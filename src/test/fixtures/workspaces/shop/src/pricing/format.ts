@@ -0,0 +1,10 @@
+import { priceWithTax } from './tax';
+
+export function formatAmount(amount: number): string {
+	return `$${amount.toFixed(2)}`;
+}
+
+/** Shelf label for a net price */
+export function formatShelfPrice(price: number): string {
+	return formatAmount(priceWithTax(price));
+}
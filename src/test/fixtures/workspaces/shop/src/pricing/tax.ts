@@ -0,0 +1,7 @@
+export const TAX_RATE = 0.2;
+
+/** Gross price including tax, rounded to cents */
+export function priceWithTax(price: number): number {
+	const gross = price * (1 + TAX_RATE);
+	return Math.round(gross * 100) / 100;
+}
@@ -0,0 +1,7 @@
+import { priceWithTax } from '../src/pricing/tax';
+
+export function testPriceWithTax(): void {
+	if (priceWithTax(10) !== 12) {
+		throw new Error('expected priceWithTax(10) to be 12');
+	}
+}
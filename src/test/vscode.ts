@@ -0,0 +1,315 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+/**
+ * 测试中代替 vscode 模块（见 vitest.config.mts 的 alias）
+ * 只实现扩展代码在测试中会用到的部分；设置值由测试通过 setConfiguration 提供，
+ * 文档直接从磁盘读取，语言服务的命令由测试注册（见 fakeLsp.ts）
+ */
+
+export class Disposable {
+	constructor(private readonly callOnDispose: () => void = () => undefined) {}
+
+	dispose(): void {
+		this.callOnDispose();
+	}
+}
+
+export class EventEmitter<T> {
+	private listeners: ((value: T) => void)[] = [];
+
+	readonly event = (listener: (value: T) => void): Disposable => {
+		this.listeners.push(listener);
+		return new Disposable(() => {
+			this.listeners = this.listeners.filter(l => l !== listener);
+		});
+	};
+
+	fire(value: T): void {
+		this.listeners.forEach(listener => listener(value));
+	}
+
+	dispose(): void {
+		this.listeners = [];
+	}
+}
+
+export class Uri {
+	private constructor(readonly scheme: string, readonly path: string) {}
+
+	static file(fsPath: string): Uri {
+		return new Uri('file', path.resolve(fsPath));
+	}
+
+	static parse(value: string): Uri {
+		if (value.startsWith('file:')) {
+			return Uri.file(fileURLToPath(value));
+		}
+		const match = /^([\w+.-]+):(.*)$/.exec(value);
+		return match ? new Uri(match[1], match[2]) : Uri.file(value);
+	}
+
+	static from(components: { scheme: string; path: string }): Uri {
+		return components.scheme === 'file' ? Uri.file(components.path) : new Uri(components.scheme, components.path);
+	}
+
+	static joinPath(base: Uri, ...segments: string[]): Uri {
+		return base.scheme === 'file' ? Uri.file(path.join(base.path, ...segments)) : new Uri(base.scheme, path.posix.join(base.path, ...segments));
+	}
+
+	get fsPath(): string {
+		return this.path;
+	}
+
+	toString(): string {
+		return this.scheme === 'file' ? pathToFileURL(this.path).href : `${this.scheme}:${this.path}`;
+	}
+}
+
+export class Position {
+	constructor(readonly line: number, readonly character: number) {}
+
+	compareTo(other: Position): number {
+		return this.line - other.line || this.character - other.character;
+	}
+
+	isBefore(other: Position): boolean {
+		return this.compareTo(other) < 0;
+	}
+
+	isBeforeOrEqual(other: Position): boolean {
+		return this.compareTo(other) <= 0;
+	}
+
+	isAfter(other: Position): boolean {
+		return this.compareTo(other) > 0;
+	}
+
+	isAfterOrEqual(other: Position): boolean {
+		return this.compareTo(other) >= 0;
+	}
+
+	isEqual(other: Position): boolean {
+		return this.compareTo(other) === 0;
+	}
+}
+
+export class Range {
+	readonly start: Position;
+	readonly end: Position;
+
+	constructor(start: Position, end: Position);
+	constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number);
+	constructor(a: Position | number, b: Position | number, c?: number, d?: number) {
+		const start = a instanceof Position ? a : new Position(a, b as number);
+		const end = b instanceof Position ? b : new Position(c!, d!);
+		[this.start, this.end] = start.isAfter(end) ? [end, start] : [start, end];
+	}
+
+	get isEmpty(): boolean {
+		return this.start.isEqual(this.end);
+	}
+
+	isEqual(other: Range): boolean {
+		return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+	}
+
+	contains(value: Position | Range): boolean {
+		return value instanceof Range
+			? this.contains(value.start) && this.contains(value.end)
+			: this.start.isBeforeOrEqual(value) && this.end.isAfterOrEqual(value);
+	}
+}
+
+export class Location {
+	readonly range: Range;
+
+	constructor(readonly uri: Uri, rangeOrPosition: Range | Position) {
+		this.range = rangeOrPosition instanceof Range ? rangeOrPosition : new Range(rangeOrPosition, rangeOrPosition);
+	}
+}
+
+export enum SymbolKind {
+	File = 0,
+	Module = 1,
+	Namespace = 2,
+	Package = 3,
+	Class = 4,
+	Method = 5,
+	Property = 6,
+	Field = 7,
+	Constructor = 8,
+	Enum = 9,
+	Interface = 10,
+	Function = 11,
+	Variable = 12,
+	Constant = 13,
+	String = 14,
+	Number = 15,
+	Boolean = 16,
+	Array = 17,
+	Object = 18,
+	Key = 19,
+	Null = 20,
+	EnumMember = 21,
+	Struct = 22,
+	Event = 23,
+	Operator = 24,
+	TypeParameter = 25
+}
+
+export class DocumentSymbol {
+	children: DocumentSymbol[] = [];
+	tags?: readonly number[];
+
+	constructor(
+		public name: string,
+		public detail: string,
+		public kind: SymbolKind,
+		public range: Range,
+		public selectionRange: Range
+	) {}
+}
+
+export interface TextLine {
+	lineNumber: number;
+	text: string;
+	range: Range;
+	firstNonWhitespaceCharacterIndex: number;
+	isEmptyOrWhitespace: boolean;
+}
+
+export class TextDocument {
+	private readonly lines: string[];
+
+	constructor(readonly uri: Uri, text: string) {
+		this.lines = text.split(/\r?\n/);
+	}
+
+	get fileName(): string {
+		return this.uri.fsPath;
+	}
+
+	get lineCount(): number {
+		return this.lines.length;
+	}
+
+	lineAt(lineOrPosition: number | Position): TextLine {
+		const line = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+		if (line < 0 || line >= this.lines.length) {
+			throw new Error(`Illegal value for \`line\`: ${line}`);
+		}
+		const text = this.lines[line];
+		const firstNonWhitespace = text.search(/\S/);
+		return {
+			lineNumber: line,
+			text,
+			range: new Range(line, 0, line, text.length),
+			firstNonWhitespaceCharacterIndex: firstNonWhitespace < 0 ? text.length : firstNonWhitespace,
+			isEmptyOrWhitespace: firstNonWhitespace < 0
+		};
+	}
+
+	getText(range?: Range): string {
+		if (!range) {
+			return this.lines.join('\n');
+		}
+		const start = this.validatePosition(range.start);
+		const end = this.validatePosition(range.end);
+		if (start.line === end.line) {
+			return this.lines[start.line].slice(start.character, end.character);
+		}
+		return [
+			this.lines[start.line].slice(start.character),
+			...this.lines.slice(start.line + 1, end.line),
+			this.lines[end.line].slice(0, end.character)
+		].join('\n');
+	}
+
+	validatePosition(position: Position): Position {
+		const line = Math.min(Math.max(0, position.line), this.lines.length - 1);
+		const character = Math.min(Math.max(0, position.character), this.lines[line].length);
+		return new Position(line, character);
+	}
+
+	getWordRangeAtPosition(position: Position, regex = /\w+/g): Range | undefined {
+		const { line, character } = this.validatePosition(position);
+		const pattern = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`);
+		for (const match of this.lines[line].matchAll(pattern)) {
+			const start = match.index ?? 0;
+			if (start <= character && character <= start + match[0].length) {
+				return new Range(line, start, line, start + match[0].length);
+			}
+		}
+		return undefined;
+	}
+}
+
+export interface WorkspaceFolder {
+	uri: Uri;
+	name: string;
+	index: number;
+}
+
+let configuration: Record<string, unknown> = {};
+
+/** 设置 getConfiguration 返回的值，键为完整的设置名（如 context-code-text.contextBudget.limit） */
+export function setConfiguration(values: Record<string, unknown>): void {
+	configuration = { ...values };
+}
+
+const documentChangeEmitter = new EventEmitter<{ document: TextDocument }>();
+const documentCloseEmitter = new EventEmitter<TextDocument>();
+
+export const workspace = {
+	workspaceFolders: undefined as WorkspaceFolder[] | undefined,
+
+	onDidChangeTextDocument: documentChangeEmitter.event,
+	onDidCloseTextDocument: documentCloseEmitter.event,
+
+	async openTextDocument(uri: Uri): Promise<TextDocument> {
+		return new TextDocument(uri, await fs.promises.readFile(uri.fsPath, 'utf8'));
+	},
+
+	getConfiguration(section?: string) {
+		const fullKey = (key: string) => (section ? `${section}.${key}` : key);
+		return {
+			get<T>(key: string, defaultValue?: T): T | undefined {
+				return fullKey(key) in configuration ? configuration[fullKey(key)] as T : defaultValue;
+			},
+			has(key: string): boolean {
+				return fullKey(key) in configuration;
+			},
+			update(): Promise<void> {
+				return Promise.resolve();
+			}
+		};
+	},
+
+	getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined {
+		return workspace.workspaceFolders?.find(folder => {
+			const relative = path.relative(folder.uri.fsPath, uri.fsPath);
+			return !relative.startsWith('..') && !path.isAbsolute(relative);
+		});
+	}
+};
+
+type CommandHandler = (...args: any[]) => unknown;
+
+const commandHandlers = new Map<string, CommandHandler>();
+
+export const commands = {
+	registerCommand(command: string, handler: CommandHandler): Disposable {
+		commandHandlers.set(command, handler);
+		return new Disposable(() => commandHandlers.delete(command));
+	},
+
+	async executeCommand<T>(command: string, ...args: unknown[]): Promise<T> {
+		const handler = commandHandlers.get(command);
+		if (!handler) {
+			throw new Error(`command '${command}' not found`);
+		}
+		return await handler(...args) as T;
+	}
+};
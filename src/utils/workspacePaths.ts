@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/** 相对所属工作区文件夹的路径；不在任何工作区文件夹中时 filePath 为绝对路径 */
+export interface WorkspacePath {
+	filePath: string;
+	// 所属工作区文件夹的名称
+	workspaceFolder?: string;
+}
+
+export function isMultiRootWorkspace(): boolean {
+	return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+}
+
+export function toWorkspacePath(uri: vscode.Uri): WorkspacePath {
+	const folder = vscode.workspace.getWorkspaceFolder(uri);
+	if (!folder) {
+		return { filePath: uri.fsPath };
+	}
+	// 统一使用 /，保存的历史在不同系统间可以通用
+	const relative = path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+	return { filePath: relative, workspaceFolder: folder.name };
+}
+
+/**
+ * 还原为 URI：优先按文件夹名称查找，找不到时按当前第一个工作区文件夹解析
+ * 旧版本保存的绝对路径原样使用
+ */
+export function resolveWorkspacePath(location: WorkspacePath): vscode.Uri {
+	if (path.isAbsolute(location.filePath)) {
+		return vscode.Uri.file(location.filePath);
+	}
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	const folder = folders.find(f => f.name === location.workspaceFolder) ?? folders[0];
+	return folder ? vscode.Uri.joinPath(folder.uri, location.filePath) : vscode.Uri.file(location.filePath);
+}
+
+/** 显示用路径：多根工作区中带上文件夹名称 */
+export function formatWorkspacePath(location: WorkspacePath): string {
+	return location.workspaceFolder && isMultiRootWorkspace()
+		? `${location.workspaceFolder}/${location.filePath}`
+		: location.filePath;
+}
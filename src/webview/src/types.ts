@@ -17,6 +17,58 @@ export interface WebviewState {
   shikiThemeLight?: string;
   // 图标资源基础 URI
   iconBaseUri?: string;
+  // 当前文章使用的语言
+  language?: string;
+  // 可选的文章语言列表
+  languages?: string[];
+  // 请求的模型档位
+  modelType?: number;
+  // 服务端实际使用的模型档位
+  servedModelType?: number;
+  // 可选的模型档位列表
+  modelTiers?: ModelTierOption[];
+  // summary 为快速预览卡片，article 为完整文章
+  requestType?: 'summary' | 'article';
+  // 文章来自磁盘缓存时的生成时间（毫秒时间戳）
+  cachedAt?: number;
+  // 缓存生成后源文件是否被修改过
+  cacheStale?: boolean;
+  // 加载中时的重试信息（第一次尝试时为空）
+  attempt?: { attempt: number; maxAttempts: number; reason: string };
+  // 生成当前文章的请求统计
+  stats?: RequestStats;
+  // 服务端报告的生成进度，取值 [0, 1]
+  progress?: number;
+  // 生成文章时模型调用的工具
+  toolCalls?: ToolCall[];
+}
+
+// 与扩展端 DeepwikiToolCall 保持一致
+export interface ToolCall {
+  callId: string;
+  tool: string;
+  argumentsJson: string;
+}
+
+// 加载阶段：等待第一段正文 / 正在流式输出 / 已完成
+export type LoadingPhase = 'waiting' | 'generating' | 'done';
+
+// 与扩展端 DeepwikiRequestStats 保持一致
+export interface RequestStats {
+  requestId?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  latencyMs?: number;
+  serverTimeMs?: number;
+  providerId?: number;
+  headers?: Record<string, string>;
+  timeToFirstTokenMs?: number;
+  totalMs?: number;
+}
+
+export interface ModelTierOption {
+  value: number;
+  label: string;
 }
 
 export interface UpdateContentMessage {
@@ -40,5 +92,70 @@ export interface SetThemeMessage {
   shikiThemeLight: string;
 }
 
-export type IncomingMessage = UpdateContentMessage | LoadingDoneMessage | InitStateMessage | SetThemeMessage;
+export interface SetServedModelTypeMessage {
+  type: 'setServedModelType';
+  modelType: number;
+}
+
+// 请求因暂时性错误正在重试
+export interface SetAttemptMessage {
+  type: 'setAttempt';
+  attempt: number;
+  maxAttempts: number;
+  reason: string;
+}
+
+// 请求统计有更新
+export interface SetStatsMessage {
+  type: 'setStats';
+  stats: RequestStats;
+}
+
+// 生成进度有更新
+export interface SetProgressMessage {
+  type: 'setProgress';
+  progress: number;
+}
+
+// 新的工具调用，或已有调用（同一 callId）的参数更新
+export interface UpsertToolCallMessage {
+  type: 'upsertToolCall';
+  toolCall: ToolCall;
+}
+
+// 发送前审阅的上下文部分（已脱敏、按预算裁剪）
+export interface ContextReviewSection {
+  key: string;
+  title: string;
+  text: string;
+  chars: number;
+  // 近似 token 数
+  tokens: number;
+  originalChars: number;
+  truncatedLines: number;
+}
+
+// 审阅模式：展示将要发送的上下文，等待用户确认
+export interface ShowContextReviewMessage {
+  type: 'showContextReview';
+  reviewId: number;
+  sections: ContextReviewSection[];
+  // 各类脱敏替换的次数
+  redactions: Record<string, number>;
+  // 上下文预算（字符数），0 表示不限制
+  limitChars: number;
+  extraInstructions: string;
+}
+
+export type IncomingMessage =
+  | UpdateContentMessage
+  | LoadingDoneMessage
+  | InitStateMessage
+  | SetThemeMessage
+  | SetServedModelTypeMessage
+  | SetAttemptMessage
+  | SetStatsMessage
+  | SetProgressMessage
+  | UpsertToolCallMessage
+  | ShowContextReviewMessage;
 
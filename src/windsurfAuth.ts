@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { WindsurfRpcError, callGetUserJwt } from './windsurfLogin';
+import { WindsurfAccount, WindsurfCredentials, getCredentialProvider } from './credentialProvider';
+import { resolveApiBaseUrl } from './config/apiBaseUrl';
+
+/**
+ * Windsurf 凭据、JWT 自动刷新与连接检查
+ * JWT 过期前用保存的 API key 重新调用 GetUserJwt，只有刷新失败时才需要用户重新登录
+ */
+
+// 距离过期不足该时间时提前刷新
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/** 缺少凭据或 JWT 刷新失败，需要用户重新登录 */
+export class WindsurfAuthError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'WindsurfAuthError';
+	}
+}
+
+// 请求使用的账号及其凭据
+export interface WindsurfSession extends WindsurfCredentials {
+	account: WindsurfAccount;
+	// 本次 RPC 使用的服务地址（已应用 apiBaseUrl 覆盖）
+	baseUrl: string;
+}
+
+// 各账号正在进行的刷新，避免并发请求同时刷新
+const refreshing = new Map<string, Promise<string>>();
+
+/** 解析 JWT payload 中的 exp（毫秒时间戳），无法解析时返回 undefined */
+export function decodeJwtExpiry(jwt: string): number | undefined {
+	const payload = jwt.split('.')[1];
+	if (!payload) {
+		return undefined;
+	}
+	try {
+		const json = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+		return typeof json?.exp === 'number' ? json.exp * 1000 : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * 获取账号可用于请求的凭据；JWT 即将过期时先刷新
+ * 刷新失败但旧 JWT 尚未过期时继续使用旧 JWT
+ * @param account 默认使用当前账号
+ */
+export async function getWindsurfCredentials(account = getCredentialProvider().getActiveAccount()): Promise<WindsurfSession> {
+	if (!account) {
+		throw new WindsurfAuthError('缺少 Windsurf 登录信息，请先运行 "Context Code Text: Windsurf Login"。');
+	}
+	const stored = await getCredentialProvider().getCredentials(account.id);
+	if (!stored.apiKey) {
+		throw new WindsurfAuthError(`Windsurf 账号 ${account.displayName} 缺少 API key，请重新运行 "Context Code Text: Windsurf Login"。`);
+	}
+	const baseUrl = resolveApiBaseUrl(account.baseUrl);
+	const expiry = stored.jwt ? decodeJwtExpiry(stored.jwt) : undefined;
+	const needsRefresh = !stored.jwt || (expiry !== undefined && expiry - Date.now() < REFRESH_MARGIN_MS);
+	if (!needsRefresh) {
+		return { account, baseUrl, ...stored };
+	}
+	try {
+		return { account, baseUrl, apiKey: stored.apiKey, jwt: await refreshWindsurfJwt(account) };
+	} catch (err) {
+		if (stored.jwt && expiry !== undefined && expiry > Date.now()) {
+			console.warn('[context-code-text] JWT refresh failed, using the current token until it expires', err);
+			return { account, baseUrl, ...stored };
+		}
+		throw err;
+	}
+}
+
+/**
+ * 用保存的 API key 重新获取 JWT 并写回凭据存储
+ * @param account 默认刷新当前账号
+ */
+export function refreshWindsurfJwt(account = getCredentialProvider().getActiveAccount()): Promise<string> {
+	if (!account) {
+		return Promise.reject(new WindsurfAuthError('缺少 Windsurf 登录信息，请先运行 "Context Code Text: Windsurf Login"。'));
+	}
+	let pending = refreshing.get(account.id);
+	if (!pending) {
+		pending = (async () => {
+			const { apiKey } = await getCredentialProvider().getCredentials(account.id);
+			if (!apiKey) {
+				throw new WindsurfAuthError(`Windsurf 账号 ${account.displayName} 缺少 API key，请重新运行 "Context Code Text: Windsurf Login"。`);
+			}
+			let jwt: string;
+			try {
+				jwt = await callGetUserJwt(account.baseUrl, apiKey);
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				throw new WindsurfAuthError(`Windsurf JWT 自动刷新失败：${message}`);
+			}
+			await getCredentialProvider().storeCredentials(account.id, { jwt });
+			console.log(`[context-code-text] Windsurf JWT refreshed for ${account.displayName}`);
+			return jwt;
+		})().finally(() => {
+			refreshing.delete(account.id);
+		});
+		refreshing.set(account.id, pending);
+	}
+	return pending;
+}
+
+/**
+ * 检查当前账号的登录状态：用保存的 API key 调用 GetUserJwt，给出明确的诊断
+ * 成功时顺便保存新获取的 JWT
+ */
+export async function checkWindsurfConnection(): Promise<void> {
+	const provider = getCredentialProvider();
+	const account = provider.getActiveAccount();
+	const credentials = account ? await provider.getCredentials(account.id) : undefined;
+	if (!account || !credentials?.apiKey) {
+		const choice = await vscode.window.showErrorMessage('未找到 Windsurf 凭据，请先登录。', '登录');
+		if (choice === '登录') {
+			void vscode.commands.executeCommand('context-code-text.loginWindsurf');
+		}
+		return;
+	}
+
+	const baseUrl = resolveApiBaseUrl(account.baseUrl);
+	const expiry = credentials.jwt ? decodeJwtExpiry(credentials.jwt) : undefined;
+	const jwtExpired = !credentials.jwt || (expiry !== undefined && expiry <= Date.now());
+
+	let jwt: string;
+	try {
+		jwt = await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: `正在检查 Windsurf 连接（${account.displayName}）…` },
+			() => callGetUserJwt(account.baseUrl, credentials.apiKey)
+		);
+	} catch (err) {
+		const diagnosis = diagnoseConnectionError(err, baseUrl);
+		const choice = await vscode.window.showErrorMessage(
+			`Windsurf 连接检查失败（${account.displayName}）：${diagnosis.text}`,
+			...(diagnosis.relogin ? ['重新登录'] : [])
+		);
+		if (choice === '重新登录') {
+			void vscode.commands.executeCommand('context-code-text.loginWindsurf');
+		}
+		return;
+	}
+
+	await provider.storeCredentials(account.id, { jwt });
+	const newExpiry = decodeJwtExpiry(jwt);
+	const expiryText = newExpiry ? `，新 JWT 有效期至 ${new Date(newExpiry).toLocaleString()}` : '';
+	const previous = jwtExpired ? '保存的 JWT 已过期，已重新获取' : 'API key 有效';
+	vscode.window.showInformationMessage(`Windsurf 连接正常（${account.displayName}，${baseUrl}）：${previous}${expiryText}。`);
+}
+
+function diagnoseConnectionError(err: unknown, baseUrl: string): { text: string; relogin: boolean } {
+	if (err instanceof WindsurfRpcError) {
+		if (err.status === 401 || err.status === 403) {
+			return { text: 'API key 无效或已被吊销，需要重新登录。', relogin: true };
+		}
+		return { text: `服务端返回 HTTP ${err.status}（${baseUrl}）。`, relogin: false };
+	}
+	const message = err instanceof Error ? err.message : String(err);
+	// fetch 本身失败（DNS、连接被拒绝、TLS 等）说明网络不可达
+	if (err instanceof TypeError || (err as any)?.cause?.code) {
+		const code = (err as any)?.cause?.code;
+		return { text: `无法连接到 ${baseUrl}${code ? `（${code}）` : ''}，请检查网络或 apiBaseUrl 设置。`, relogin: false };
+	}
+	return { text: message, relogin: false };
+}
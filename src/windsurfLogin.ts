@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import { getCredentialProvider } from './credentialProvider';
+import { DEFAULT_API_BASE_URL, resolveApiBaseUrl } from './config/apiBaseUrl';
+import { getWindsurfCredentials } from './windsurfAuth';
 
 type RegisterUserResult = {
 	apiKey: string;
@@ -6,6 +9,14 @@ type RegisterUserResult = {
 	displayName?: string;
 };
 
+/** Windsurf RPC 返回非 2xx 状态 */
+export class WindsurfRpcError extends Error {
+	constructor(readonly status: number, message: string) {
+		super(message);
+		this.name = 'WindsurfRpcError';
+	}
+}
+
 async function promptRegistrationCode(): Promise<string | undefined> {
 	const input = await vscode.window.showInputBox({
 		title: 'Windsurf Registration',
@@ -140,7 +151,7 @@ async function callRegisterUser(regCodeWithoutPlus: string): Promise<RegisterUse
 	const fields = decodeStringFields(buf);
 	const apiKey = fields[1];
 	const displayName = fields[2];
-	const baseUrl = fields[3] ?? 'https://server.self-serve.windsurf.com';
+	const baseUrl = fields[3] ?? DEFAULT_API_BASE_URL;
 	if (!apiKey) {
 		throw new Error('RegisterUser response missing api_key');
 	}
@@ -180,8 +191,8 @@ function buildGetUserJwtBody(apiKey: string): Uint8Array {
 	return Uint8Array.from([tag, ...lengthBytes, ...Array.from(clientInfo)]);
 }
 
-async function callGetUserJwt(baseUrl: string, apiKey: string): Promise<string> {
-	const url = `${baseUrl.replace(/\/$/, '')}/exa.auth_pb.AuthService/GetUserJwt`;
+export async function callGetUserJwt(baseUrl: string, apiKey: string): Promise<string> {
+	const url = `${resolveApiBaseUrl(baseUrl)}/exa.auth_pb.AuthService/GetUserJwt`;
 	const body = buildGetUserJwtBody(apiKey);
 	const response = await fetch(url, {
 		method: 'POST',
@@ -202,7 +213,7 @@ async function callGetUserJwt(baseUrl: string, apiKey: string): Promise<string>
 			statusText: response.statusText,
 			body: text
 		});
-		throw new Error(`GetUserJwt failed: ${response.status} ${response.statusText}`);
+		throw new WindsurfRpcError(response.status, `GetUserJwt failed: ${response.status} ${response.statusText}`);
 	}
 	const arrayBuf = await response.arrayBuffer();
 	const buf = new Uint8Array(arrayBuf);
@@ -230,10 +241,12 @@ export async function runWindsurfLogin(): Promise<void> {
 			async () => {
 				const regResult = await callRegisterUser(reg);
 				const jwt = await callGetUserJwt(regResult.baseUrl, regResult.apiKey);
-				const config = vscode.workspace.getConfiguration('context-code-text');
-				await config.update('windsurfApiKey', regResult.apiKey, vscode.ConfigurationTarget.Global);
-				await config.update('windsurfJwt', jwt, vscode.ConfigurationTarget.Global);
 				const name = regResult.displayName ?? '用户';
+				// 同一个 API key 再次登录时更新已有账号，否则新增账号并切换过去
+				await getCredentialProvider().addAccount(
+					{ displayName: name, baseUrl: regResult.baseUrl },
+					{ apiKey: regResult.apiKey, jwt }
+				);
 				vscode.window.showInformationMessage(`Windsurf 登录成功，欢迎 ${name}`);
 			}
 		);
@@ -245,3 +258,69 @@ export async function runWindsurfLogin(): Promise<void> {
 		vscode.window.showErrorMessage(`Windsurf 登录失败${which}: ${message}`);
 	}
 }
+
+/** 退出当前账号并删除其凭据；还有其他账号时自动切换到其中一个 */
+export async function runWindsurfLogout(): Promise<void> {
+	const provider = getCredentialProvider();
+	const account = provider.getActiveAccount();
+	if (!account) {
+		vscode.window.showInformationMessage('当前没有已登录的 Windsurf 账号');
+		return;
+	}
+	try {
+		await provider.removeAccount(account.id);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		vscode.window.showErrorMessage(`退出 Windsurf 账号 ${account.displayName} 失败: ${message}`);
+		return;
+	}
+	const next = provider.getActiveAccount();
+	vscode.window.showInformationMessage(
+		next
+			? `已退出 Windsurf 账号 ${account.displayName}，当前账号切换为 ${next.displayName}`
+			: `已退出 Windsurf 账号 ${account.displayName}，本地保存的凭据已删除`
+	);
+}
+
+/** 选择当前工作区使用的 Windsurf 账号 */
+export async function switchWindsurfAccount(): Promise<void> {
+	const provider = getCredentialProvider();
+	const active = provider.getActiveAccount();
+	type AccountItem = vscode.QuickPickItem & { accountId?: string };
+	const items: AccountItem[] = provider.listAccounts().map(account => ({
+		label: account.id === active?.id ? `$(check) ${account.displayName}` : account.displayName,
+		description: account.baseUrl,
+		accountId: account.id
+	}));
+	items.push({ label: '$(add) 添加账号…' });
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: '选择当前工作区使用的 Windsurf 账号'
+	});
+	if (!selected) {
+		return;
+	}
+	if (!selected.accountId) {
+		await runWindsurfLogin();
+		return;
+	}
+	const account = provider.listAccounts().find(a => a.id === selected.accountId);
+	if (!account) {
+		return;
+	}
+	// 先确认新账号的凭据可用（必要时刷新 JWT），失败时保留原来的账号
+	try {
+		await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: `正在切换到 Windsurf 账号 ${account.displayName}…`, cancellable: false },
+			() => getWindsurfCredentials(account)
+		);
+		await provider.setActiveAccount(account.id);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		const current = provider.getActiveAccount();
+		vscode.window.showErrorMessage(
+			current
+				? `切换到 Windsurf 账号 ${account.displayName} 失败，仍使用 ${current.displayName}: ${message}`
+				: `切换到 Windsurf 账号 ${account.displayName} 失败: ${message}`
+		);
+	}
+}
@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// 测试在 VS Code 之外运行，用替身代替 vscode 模块
+			vscode: fileURLToPath(new URL('./src/test/vscode.ts', import.meta.url))
+		}
+	},
+	test: {
+		include: ['src/test/**/*.test.ts'],
+		// fixture 工作区只是被测代码读取的数据
+		exclude: ['src/test/fixtures/**'],
+		env: {
+			// ripgrep 按路径排序输出，grep 上下文的 golden 不受并行搜索的顺序影响
+			RIPGREP_CONFIG_PATH: fileURLToPath(new URL('./src/test/fixtures/ripgreprc', import.meta.url))
+		}
+	}
+});